@@ -12,6 +12,13 @@ import HabitsPage from "./pages/HabitsPage";
 import CalendarPage from "./pages/CalendarPage";
 import InsightsPage from "./pages/InsightsPage";
 import DiaryPage from "./pages/DiaryPage";
+import TrashPage from "./pages/TrashPage";
+import GalleryPage from "./pages/GalleryPage";
+import TagsPage from "./pages/TagsPage";
+import PromptsPage from "./pages/PromptsPage";
+import ReflectPage from "./pages/ReflectPage";
+import { SearchCommand } from "./components/SearchCommand";
+import { OfflineSync } from "./components/OfflineSync";
 
 function ProtectedRoute({ component: Component }: { component: React.ComponentType }) {
   const { isAuthenticated, loading } = useAuth();
@@ -31,16 +38,27 @@ function Router() {
   const { isAuthenticated } = useAuth();
 
   return (
-    <Switch>
-      <Route path="/" component={Home} />
-      <Route path="/diary" component={() => <ProtectedRoute component={DiaryPage} />} />
-      <Route path="/mood" component={() => <ProtectedRoute component={MoodPage} />} />
-      <Route path="/habits" component={() => <ProtectedRoute component={HabitsPage} />} />
-      <Route path="/calendar" component={() => <ProtectedRoute component={CalendarPage} />} />
-      <Route path="/insights" component={() => <ProtectedRoute component={InsightsPage} />} />
-      <Route path="/404" component={NotFound} />
-      <Route component={NotFound} />
-    </Switch>
+    <>
+      {isAuthenticated && <SearchCommand />}
+      {isAuthenticated && <OfflineSync />}
+      <Switch>
+        <Route path="/" component={Home} />
+        <Route path="/diary" component={() => <ProtectedRoute component={DiaryPage} />} />
+        <Route path="/diary/:id" component={() => <ProtectedRoute component={DiaryPage} />} />
+        <Route path="/trash" component={() => <ProtectedRoute component={TrashPage} />} />
+        <Route path="/mood" component={() => <ProtectedRoute component={MoodPage} />} />
+        <Route path="/habits" component={() => <ProtectedRoute component={HabitsPage} />} />
+        <Route path="/calendar" component={() => <ProtectedRoute component={CalendarPage} />} />
+        <Route path="/insights" component={() => <ProtectedRoute component={InsightsPage} />} />
+        <Route path="/gallery" component={() => <ProtectedRoute component={GalleryPage} />} />
+        <Route path="/tags" component={() => <ProtectedRoute component={TagsPage} />} />
+        <Route path="/tags/:id" component={() => <ProtectedRoute component={TagsPage} />} />
+        <Route path="/prompts" component={() => <ProtectedRoute component={PromptsPage} />} />
+        <Route path="/reflect" component={() => <ProtectedRoute component={ReflectPage} />} />
+        <Route path="/404" component={NotFound} />
+        <Route component={NotFound} />
+      </Switch>
+    </>
   );
 }
 
@@ -0,0 +1,79 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import type { PROMPT_CATEGORIES } from "@shared/const";
+import { Lightbulb, Sparkles } from "lucide-react";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+import { startOfDay } from "date-fns";
+
+export type PromptCategory = (typeof PROMPT_CATEGORIES)[number];
+
+export const promptCategoryLabels: Record<PromptCategory, string> = {
+  gratitude: "Gratitude",
+  reflection: "Reflection",
+  growth: "Growth",
+  relationships: "Relationships",
+  mindfulness: "Mindfulness",
+  creativity: "Creativity",
+  coping: "Hard days",
+};
+
+type DailyPromptCardProps = {
+  onUse: (text: string) => void;
+};
+
+/**
+ * Today's writing prompt, for when the blank page is the hardest part.
+ */
+export function DailyPromptCard({ onUse }: DailyPromptCardProps) {
+  const [, navigate] = useLocation();
+  const utils = trpc.useUtils();
+  const today = startOfDay(new Date());
+
+  const todayQuery = trpc.prompts.today.useQuery({ date: today });
+  const prompt = todayQuery.data?.prompt;
+
+  const generateMutation = trpc.prompts.generate.useMutation({
+    onSuccess: (generated) => {
+      utils.prompts.today.setData({ date: today }, (data) => data && { ...data, prompt: generated });
+      utils.prompts.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to suggest a prompt");
+    },
+  });
+
+  if (!prompt) return null;
+
+  return (
+    <Card className="card-elevated mb-6">
+      <CardContent className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <Lightbulb className="w-5 h-5 mt-0.5 text-accent" />
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Today's prompt · {promptCategoryLabels[prompt.category]}
+            </p>
+            <p className="font-medium">{prompt.text}</p>
+          </div>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          {todayQuery.data?.canGenerate && (
+            <Button
+              variant="outline"
+              onClick={() => generateMutation.mutate({ date: today })}
+              disabled={generateMutation.isPending}
+              title="Suggest a prompt that fits how you have been feeling lately"
+            >
+              <Sparkles className="w-4 h-4 mr-2" />
+              {generateMutation.isPending ? "Thinking..." : "For My Mood"}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => navigate("/prompts")}>Browse</Button>
+          <Button onClick={() => onUse(prompt.text)}>Use Prompt</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
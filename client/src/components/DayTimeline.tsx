@@ -0,0 +1,49 @@
+import { MoodChip } from "@/components/MoodChip";
+import { toPreviewText } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+import type { DiaryEntry } from "@shared/types";
+import { format } from "date-fns";
+
+type DayTimelineProps = {
+  entries: Pick<DiaryEntry, "id" | "title" | "content" | "contentFormat" | "date" | "mood" | "moodIntensity">[];
+  activeId?: number | null;
+  onSelect: (id: number) => void;
+};
+
+/**
+ * Vertical timeline of the entries written on a single day, ordered by time.
+ */
+export function DayTimeline({ entries, activeId, onSelect }: DayTimelineProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No entries for this day yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {entries.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span
+            className={cn(
+              "absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background",
+              entry.id === activeId ? "bg-accent" : "bg-muted-foreground/40"
+            )}
+          />
+          <button
+            onClick={() => onSelect(entry.id)}
+            className={cn(
+              "w-full text-left rounded-lg p-2 transition-colors hover:bg-muted",
+              entry.id === activeId && "bg-muted"
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <time className="text-xs font-semibold text-muted-foreground">{format(new Date(entry.date), "h:mm a")}</time>
+              <MoodChip mood={entry.mood} intensity={entry.moodIntensity} />
+            </div>
+            <p className="font-medium truncate">{entry.title || "Untitled entry"}</p>
+            {entry.content && <p className="text-sm text-muted-foreground line-clamp-2">{toPreviewText(entry.content, entry.contentFormat)}</p>}
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,38 @@
+import { resolveMediaReferences, type ContentFormat, type InlineMedia } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+import { useMemo } from "react";
+import { defaultRehypePlugins, Streamdown } from "streamdown";
+
+type EntryContentProps = {
+  content: string;
+  format: ContentFormat;
+  media?: InlineMedia[];
+  className?: string;
+};
+
+// Entries are Markdown only: raw HTML stays escaped instead of being rendered
+const rehypePlugins = [defaultRehypePlugins.harden];
+
+/**
+ * Renders entry content in its recorded format. Plain-text entries keep their line breaks as written.
+ */
+export function EntryContent({ content, format, media = [], className }: EntryContentProps) {
+  const markdown = useMemo(() => (format === "markdown" ? resolveMediaReferences(content, media) : ""), [content, format, media]);
+
+  if (format === "plain") {
+    return <p className={cn("whitespace-pre-wrap", className)}>{content}</p>;
+  }
+
+  return (
+    <Streamdown
+      className={cn("prose prose-sm dark:prose-invert max-w-none", className)}
+      parseIncompleteMarkdown={false}
+      rehypePlugins={rehypePlugins}
+      components={{
+        img: ({ src, alt }) => (src ? <img src={String(src)} alt={alt ?? ""} loading="lazy" className="max-h-96 rounded-lg" /> : null),
+      }}
+    >
+      {markdown}
+    </Streamdown>
+  );
+}
@@ -0,0 +1,115 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Textarea } from "@/components/ui/textarea";
+import { EntryContent } from "@/components/EntryContent";
+import { mediaReference, type ContentFormat, type InlineMedia } from "@/lib/markdown";
+import { Bold, Heading2, Image as ImageIcon, ListChecks, Quote } from "lucide-react";
+
+type MarkdownEditorProps = {
+  value: string;
+  onChange: (value: string) => void;
+  format: ContentFormat;
+  // Photos attached to the entry, offered for inline placement
+  media: InlineMedia[];
+  placeholder?: string;
+};
+
+/**
+ * Textarea with a formatting toolbar and a live preview beside it.
+ * Plain-format entries keep the bare textarea, so they read exactly as before.
+ */
+export function MarkdownEditor({ value, onChange, format, media, placeholder }: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Applies an edit to the current selection and restores the caret afterwards
+  const edit = (transform: (selected: string, before: string) => { text: string; caretOffset?: number }) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const { text, caretOffset = text.length } = transform(value.slice(start, end), value.slice(0, start));
+    onChange(value.slice(0, start) + text + value.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + caretOffset, start + caretOffset);
+    });
+  };
+
+  // Prefixes each selected line (or a fresh line) with a block marker
+  const prefixLines = (marker: string) => edit((selected, before) => {
+    const newline = before.length > 0 && !before.endsWith("\n") ? "\n" : "";
+    const lines = (selected || "").split("\n").map(line => `${marker}${line}`);
+    return { text: newline + lines.join("\n") };
+  });
+
+  const wrap = (token: string) => edit((selected) => ({
+    text: `${token}${selected}${token}`,
+    caretOffset: selected ? undefined : token.length,
+  }));
+
+  const insertImage = (item: InlineMedia) => edit((_selected, before) => {
+    const newline = before.length > 0 && !before.endsWith("\n") ? "\n" : "";
+    return { text: `${newline}${mediaReference(item)}\n` };
+  });
+
+  const textarea = (
+    <Textarea
+      ref={textareaRef}
+      placeholder={placeholder}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="min-h-64 font-mono text-sm"
+    />
+  );
+
+  if (format === "plain") {
+    return textarea;
+  }
+
+  return (
+    <div className="space-y-2">
+      {/* Toolbar */}
+      <div className="flex flex-wrap gap-1">
+        <Button type="button" variant="ghost" size="sm" onClick={() => prefixLines("## ")} title="Heading">
+          <Heading2 className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => wrap("**")} title="Bold">
+          <Bold className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => prefixLines("> ")} title="Quote">
+          <Quote className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => prefixLines("- [ ] ")} title="Checklist">
+          <ListChecks className="w-4 h-4" />
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button type="button" variant="ghost" size="sm" disabled={media.length === 0} title="Insert photo from this entry">
+              <ImageIcon className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {media.map((item) => (
+              <DropdownMenuItem key={item.id} onSelect={() => insertImage(item)}>
+                <img src={item.url} alt="" className="w-8 h-8 object-cover rounded" />
+                <span className="truncate max-w-48">{item.name}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {/* Source and live preview */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {textarea}
+        <div className="min-h-64 rounded-md border border-border p-3 overflow-auto">
+          {value.trim() ? (
+            <EntryContent content={value} format="markdown" media={media} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Preview appears here as you write.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
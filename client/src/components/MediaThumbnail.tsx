@@ -0,0 +1,67 @@
+import type { MediaVariantUrls } from "@/lib/uploadMedia";
+import { cn } from "@/lib/utils";
+import type { MediaFile } from "@shared/types";
+import { Mic, Video } from "lucide-react";
+
+type MediaThumbnailProps = {
+  url: string;
+  type: MediaFile["fileType"];
+  name: string;
+  variants?: MediaVariantUrls[];
+  // Rendered width hint for the browser's srcset choice
+  sizes?: string;
+  className?: string;
+};
+
+/**
+ * Preview tile for an uploaded file. Uses the server-generated WebP thumbnails
+ * through srcset when present, the video poster frame for videos, and an icon for voice notes.
+ */
+export function MediaThumbnail({ url, type, name, variants = [], sizes = "(min-width: 768px) 33vw, 50vw", className }: MediaThumbnailProps) {
+  const thumbnails = variants.filter(variant => variant.kind === "thumbnail");
+  const srcSet = thumbnails.map(variant => `${variant.fileUrl} ${variant.width}w`).join(", ");
+  const poster = variants.find(variant => variant.kind === "poster");
+
+  if (type === "image") {
+    return (
+      <img
+        src={thumbnails[0]?.fileUrl ?? url}
+        srcSet={srcSet || undefined}
+        sizes={srcSet ? sizes : undefined}
+        alt={name}
+        loading="lazy"
+        className={cn("w-full h-32 object-cover rounded-lg", className)}
+      />
+    );
+  }
+
+  if (type === "audio") {
+    return (
+      <div className={cn("w-full h-32 bg-slate-200 dark:bg-slate-700 rounded-lg flex items-center justify-center", className)}>
+        <Mic className="w-8 h-8 text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (thumbnails.length > 0 || poster) {
+    return (
+      <div className={cn("relative w-full h-32", className)}>
+        <img
+          src={thumbnails[0]?.fileUrl ?? poster?.fileUrl}
+          srcSet={srcSet || undefined}
+          sizes={srcSet ? sizes : undefined}
+          alt={name}
+          loading="lazy"
+          className="w-full h-full object-cover rounded-lg"
+        />
+        <Video className="absolute bottom-2 left-2 w-5 h-5 text-white drop-shadow" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("w-full h-32 bg-slate-200 dark:bg-slate-700 rounded-lg flex items-center justify-center", className)}>
+      <Video className="w-8 h-8 text-muted-foreground" />
+    </div>
+  );
+}
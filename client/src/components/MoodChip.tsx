@@ -0,0 +1,30 @@
+import { cn } from "@/lib/utils";
+
+export type MoodType = "excellent" | "good" | "neutral" | "sad" | "terrible";
+
+export const moodOptions: { type: MoodType; emoji: string; label: string; color: string; hoverColor: string }[] = [
+  { type: "excellent", emoji: "😄", label: "Excellent", color: "bg-emerald-100 dark:bg-emerald-900", hoverColor: "hover:bg-emerald-200" },
+  { type: "good", emoji: "🙂", label: "Good", color: "bg-blue-100 dark:bg-blue-900", hoverColor: "hover:bg-blue-200" },
+  { type: "neutral", emoji: "😐", label: "Neutral", color: "bg-slate-100 dark:bg-slate-800", hoverColor: "hover:bg-slate-200" },
+  { type: "sad", emoji: "😔", label: "Sad", color: "bg-purple-100 dark:bg-purple-900", hoverColor: "hover:bg-purple-200" },
+  { type: "terrible", emoji: "😢", label: "Terrible", color: "bg-red-100 dark:bg-red-900", hoverColor: "hover:bg-red-200" },
+];
+
+type MoodChipProps = {
+  mood: string | null;
+  intensity?: number | null;
+  className?: string;
+};
+
+export function MoodChip({ mood, intensity, className }: MoodChipProps) {
+  const option = moodOptions.find(m => m.type === mood);
+  if (!option) return null;
+
+  return (
+    <span className={cn("inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium", option.color, className)}>
+      <span>{option.emoji}</span>
+      <span>{option.label}</span>
+      {intensity ? <span className="text-muted-foreground">{intensity}/10</span> : null}
+    </span>
+  );
+}
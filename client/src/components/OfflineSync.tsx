@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { getQueuedMutations, OFFLINE_QUEUE_EVENT, replayQueuedMutations, type QueuedMutation } from "@/lib/offlineQueue";
+import { trpc } from "@/lib/trpc";
+import { CloudOff, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+function describe(mutation: QueuedMutation) {
+  const day = format(mutation.input.date, "MMM d");
+  switch (mutation.path) {
+    case "diary.create":
+      return `entry "${mutation.input.title || "Untitled entry"}"`;
+    case "mood.record":
+      return `mood for ${day}`;
+    case "habitCompletions.toggle":
+      return `habit check-in for ${day}`;
+  }
+}
+
+/**
+ * Replays changes made offline once the connection is back, and shows how many are waiting.
+ */
+export function OfflineSync() {
+  const { user } = useAuth();
+  const utils = trpc.useUtils();
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+
+  const recount = useCallback(async () => {
+    if (!user) return;
+    const queued = await getQueuedMutations(user.id).catch(() => []);
+    setQueuedCount(queued.length);
+  }, [user]);
+
+  const sync = useCallback(async () => {
+    if (!user || !navigator.onLine) return;
+    setSyncing(true);
+    try {
+      const { sent, rejected } = await replayQueuedMutations(utils.client, user.id);
+      if (sent === 0 && rejected.length === 0) return;
+      await utils.invalidate();
+      if (sent > 0) {
+        toast.success(`Synced ${sent} offline ${sent === 1 ? "change" : "changes"}`);
+      }
+      for (const { mutation, message, conflict } of rejected) {
+        const description = `Your offline ${describe(mutation)} was not saved: ${message}`;
+        if (conflict) {
+          toast.warning("Kept the newer version", { description });
+        } else {
+          toast.error("Could not sync a change", { description });
+        }
+      }
+    } catch (error) {
+      console.error("[Offline] Replay failed", error);
+    } finally {
+      setSyncing(false);
+    }
+  }, [user, utils]);
+
+  useEffect(() => {
+    recount();
+    sync();
+    const onOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const onOffline = () => setOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    window.addEventListener(OFFLINE_QUEUE_EVENT, recount);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      window.removeEventListener(OFFLINE_QUEUE_EVENT, recount);
+    };
+  }, [recount, sync]);
+
+  if (online && queuedCount === 0) return null;
+
+  return (
+    <button
+      onClick={sync}
+      disabled={!online || syncing}
+      title={online ? "Sync now" : "Changes are kept on this device until you reconnect"}
+      className="fixed bottom-4 left-4 z-50 flex items-center gap-2 rounded-full border border-border bg-background/95 px-3 py-1.5 text-xs text-muted-foreground shadow-md"
+    >
+      {online ? <RefreshCw className={`w-3.5 h-3.5 ${syncing ? "animate-spin" : ""}`} /> : <CloudOff className="w-3.5 h-3.5" />}
+      <span>
+        {online ? (syncing ? "Syncing" : "Not synced yet") : "Offline"}
+        {queuedCount > 0 && ` · ${queuedCount} ${queuedCount === 1 ? "change" : "changes"} waiting`}
+      </span>
+    </button>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { trpc } from "@/lib/trpc";
+import { diffLines, type DiffRow } from "@/lib/diff";
+import { cn } from "@/lib/utils";
+import { History, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+type RevisionHistoryDialogProps = {
+  diaryEntryId: number;
+  currentTitle: string;
+  currentContent: string;
+  onRestored?: () => void;
+};
+
+const rowStyles: Record<DiffRow["type"], { left: string; right: string }> = {
+  same: { left: "", right: "" },
+  changed: { left: "bg-red-50 dark:bg-red-950", right: "bg-emerald-50 dark:bg-emerald-950" },
+  removed: { left: "bg-red-50 dark:bg-red-950", right: "" },
+  added: { left: "", right: "bg-emerald-50 dark:bg-emerald-950" },
+};
+
+export function RevisionHistoryDialog({ diaryEntryId, currentTitle, currentContent, onRestored }: RevisionHistoryDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const revisionsQuery = trpc.diary.listRevisions.useQuery({ diaryEntryId }, { enabled: open });
+  const revisionQuery = trpc.diary.getRevision.useQuery({ id: selectedId ?? 0 }, { enabled: open && selectedId !== null });
+
+  const restoreMutation = trpc.diary.restoreRevision.useMutation({
+    onSuccess: () => {
+      toast.success("Previous version restored");
+      revisionsQuery.refetch();
+      setSelectedId(null);
+      setOpen(false);
+      onRestored?.();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to restore version");
+    },
+  });
+
+  const revision = revisionQuery.data;
+  const rows = revision
+    ? diffLines(`${revision.title || ""}\n\n${revision.content || ""}`, `${currentTitle}\n\n${currentContent}`)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <History className="w-4 h-4 mr-2" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Revision History</DialogTitle>
+          <DialogDescription>Compare earlier versions with the current entry and roll back if needed</DialogDescription>
+        </DialogHeader>
+
+        {revisionsQuery.data && revisionsQuery.data.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">This entry has not been edited yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-4">
+            {/* Version list */}
+            <ScrollArea className="h-96 pr-2">
+              <div className="space-y-1">
+                {revisionsQuery.data?.map((item) => (
+                  <button
+                    key={item.id}
+                    onClick={() => setSelectedId(item.id)}
+                    className={cn(
+                      "w-full text-left p-2 rounded-md text-sm transition-colors hover:bg-muted",
+                      selectedId === item.id && "bg-muted"
+                    )}
+                  >
+                    <p className="font-medium">{format(new Date(item.createdAt), "MMM d, yyyy")}</p>
+                    <p className="text-xs text-muted-foreground">{format(new Date(item.createdAt), "h:mm a")}</p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {/* Side-by-side diff */}
+            <div className="min-w-0">
+              {revision ? (
+                <>
+                  <div className="grid grid-cols-2 gap-2 mb-2 text-xs font-semibold text-muted-foreground">
+                    <span>Version from {format(new Date(revision.createdAt), "MMM d, h:mm a")}</span>
+                    <span>Current</span>
+                  </div>
+                  <ScrollArea className="h-80 rounded-md border border-border">
+                    <div className="font-mono text-xs">
+                      {rows.map((row, index) => (
+                        <div key={index} className="grid grid-cols-2">
+                          <pre className={cn("whitespace-pre-wrap px-2 py-0.5 border-r border-border", rowStyles[row.type].left)}>
+                            {row.left ?? ""}
+                          </pre>
+                          <pre className={cn("whitespace-pre-wrap px-2 py-0.5", rowStyles[row.type].right)}>
+                            {row.right ?? ""}
+                          </pre>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                  <div className="flex justify-end mt-4">
+                    <Button
+                      className="bg-accent hover:bg-accent/90 text-white"
+                      onClick={() => restoreMutation.mutate({ id: revision.id })}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restore This Version
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground py-8 text-center">Select a version to compare.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
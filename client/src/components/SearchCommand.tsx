@@ -0,0 +1,119 @@
+import { Fragment, useEffect, useState } from "react";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Spinner } from "@/components/ui/spinner";
+import { trpc } from "@/lib/trpc";
+import { BookOpen, CheckCircle2, Heart } from "lucide-react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+
+const OPEN_SEARCH_EVENT = "diary:open-search";
+const DEBOUNCE_MS = 250;
+
+const groups = [
+  { type: "entry", heading: "Entries", icon: BookOpen },
+  { type: "mood", heading: "Mood Notes", icon: Heart },
+  { type: "habit", heading: "Habit Notes", icon: CheckCircle2 },
+] as const;
+
+// Opens the palette from a button; the keyboard shortcut works anywhere
+export function openSearch() {
+  window.dispatchEvent(new Event(OPEN_SEARCH_EVENT));
+}
+
+/**
+ * Journal-wide search palette, toggled with Cmd/Ctrl+K.
+ */
+export function SearchCommand() {
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+    const onOpen = () => setOpen(true);
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener(OPEN_SEARCH_EVENT, onOpen);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener(OPEN_SEARCH_EVENT, onOpen);
+    };
+  }, []);
+
+  // Wait for a pause in typing before querying
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  const searchQuery = trpc.search.query.useQuery({ q: query }, { enabled: open && query.length > 0 });
+  const results = searchQuery.data ?? [];
+
+  const handleSelect = (result: (typeof results)[number]) => {
+    setOpen(false);
+    if (result.type === "entry") {
+      navigate(`/diary/${result.targetId}`);
+    } else if (result.type === "mood") {
+      navigate("/mood");
+    } else {
+      navigate("/habits");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogHeader className="sr-only">
+        <DialogTitle>Search</DialogTitle>
+        <DialogDescription>Search your entries, mood notes and habit notes</DialogDescription>
+      </DialogHeader>
+      <DialogContent className="overflow-hidden p-0 sm:max-w-2xl">
+        {/* Results are ranked by the server, so cmdk's own filtering is off */}
+        <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group]]:px-2 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3">
+          <CommandInput value={input} onValueChange={setInput} placeholder="Search your journal..." />
+          <CommandList className="max-h-[420px]">
+            {query.length > 0 && !searchQuery.isFetching && <CommandEmpty>No matches found.</CommandEmpty>}
+            {searchQuery.isFetching && results.length === 0 && (
+              <div className="flex justify-center py-6">
+                <Spinner />
+              </div>
+            )}
+            {groups.map(({ type, heading, icon: Icon }) => {
+              const matches = results.filter(result => result.type === type);
+              if (matches.length === 0) return null;
+              return (
+                <CommandGroup key={type} heading={heading}>
+                  {matches.map((result) => (
+                    <CommandItem key={`${type}-${result.id}`} value={`${type}-${result.id}`} onSelect={() => handleSelect(result)} className="items-start">
+                      <Icon className="mt-0.5 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium truncate">{result.title}</span>
+                          <span className="text-xs text-muted-foreground shrink-0">{format(new Date(result.date), "MMM d, yyyy")}</span>
+                        </div>
+                        {result.snippet.length > 0 && (
+                          <p className="text-sm text-muted-foreground line-clamp-2">
+                            {result.snippet.map((part, index) => (
+                              <Fragment key={index}>
+                                {part.highlight ? <mark className="bg-accent/30 text-foreground rounded-sm">{part.text}</mark> : part.text}
+                              </Fragment>
+                            ))}
+                          </p>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
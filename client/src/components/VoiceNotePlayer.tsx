@@ -0,0 +1,73 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { FileText } from "lucide-react";
+
+type VoiceNotePlayerProps = {
+  mediaFileId: number;
+  url: string;
+  name: string;
+  // Offered when the note has no transcript yet
+  onTranscribe?: () => void;
+  transcribing?: boolean;
+};
+
+/**
+ * Plays a voice note with its transcript, highlighting the sentence being spoken.
+ * Clicking a sentence jumps to it.
+ */
+export function VoiceNotePlayer({ mediaFileId, url, name, onTranscribe, transcribing }: VoiceNotePlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const transcriptQuery = trpc.voice.getTranscript.useQuery({ mediaFileId });
+  const segments = transcriptQuery.data?.segments ?? [];
+
+  const seek = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = seconds;
+    audio.play().catch(() => {});
+  };
+
+  return (
+    <div className="space-y-2">
+      <audio
+        ref={audioRef}
+        src={url}
+        controls
+        preload="metadata"
+        className="w-full"
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+      >
+        {name}
+      </audio>
+      {segments.length > 0 ? (
+        <p className="text-sm leading-relaxed">
+          {segments.map((segment, index) => (
+            <span
+              key={index}
+              onClick={() => seek(segment.start)}
+              className={cn(
+                "cursor-pointer rounded px-0.5 transition-colors hover:bg-muted",
+                currentTime >= segment.start && currentTime < segment.end && "bg-accent/20 text-foreground"
+              )}
+            >
+              {segment.text}{" "}
+            </span>
+          ))}
+        </p>
+      ) : transcriptQuery.data ? (
+        <p className="text-sm leading-relaxed">{transcriptQuery.data.text}</p>
+      ) : (
+        transcriptQuery.isFetched && onTranscribe && (
+          <Button variant="outline" size="sm" onClick={onTranscribe} disabled={transcribing}>
+            <FileText className="w-4 h-4 mr-2" />
+            {transcribing ? "Transcribing..." : "Transcribe"}
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Mic, Square } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+// Preferred first; Safari only records audio/mp4
+const RECORDING_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/mp4"];
+const extensions: Record<string, string> = { "audio/webm": "webm", "audio/ogg": "ogg", "audio/mp4": "m4a" };
+
+type VoiceRecorderProps = {
+  onRecorded: (file: File) => void;
+  disabled?: boolean;
+};
+
+const formatElapsed = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+/**
+ * Records a voice note from the microphone with MediaRecorder and hands it over as a file.
+ */
+export function VoiceRecorder({ onRecorded, disabled }: VoiceRecorderProps) {
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const supported = typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => setElapsed(seconds => seconds + 1), 1000);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  // Leaving the page mid-recording releases the microphone
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") {
+      recorder.ondataavailable = null;
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+  }, []);
+
+  const start = async () => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      toast.error("Microphone access was denied");
+      return;
+    }
+
+    const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      setRecording(false);
+      // Uploads are matched on the bare mime type, without codec parameters
+      const type = (recorder.mimeType || mimeType || "audio/webm").split(";")[0];
+      const name = `Voice note ${format(new Date(), "yyyy-MM-dd HH.mm")}.${extensions[type] ?? "webm"}`;
+      if (chunks.length > 0) onRecordedRef.current(new File(chunks, name, { type }));
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setElapsed(0);
+    setRecording(true);
+  };
+
+  const stop = () => recorderRef.current?.stop();
+
+  if (!supported) return null;
+
+  return recording ? (
+    <Button variant="destructive" onClick={stop}>
+      <Square className="w-4 h-4 mr-2" />
+      Stop · {formatElapsed(elapsed)}
+    </Button>
+  ) : (
+    <Button variant="outline" onClick={start} disabled={disabled}>
+      <Mic className="w-4 h-4 mr-2" />
+      Record Voice Note
+    </Button>
+  );
+}
@@ -0,0 +1,265 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { deleteLocalDraft, draftKey, getLocalDraft, putLocalDraft, serializeDraft, type DraftValues } from "@/lib/draftStore";
+import { trpc } from "@/lib/trpc";
+import { TRPCClientError } from "@trpc/client";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const SERVER_SAVE_DELAY_MS = 1500;
+
+export type AutosaveStatus = "idle" | "pending" | "saving" | "saved" | "offline" | "conflict";
+
+export type RecoveredDraft = {
+  values: DraftValues;
+  savedAt: Date;
+  // The entry itself was saved again after this draft was started
+  entryChanged: boolean;
+};
+
+type ServerDraft = {
+  title: string | null;
+  content: string | null;
+  contentFormat: DraftValues["contentFormat"];
+  date: Date | null;
+  mood: DraftValues["mood"];
+  moodIntensity: number | null;
+  mediaIds: number[] | null;
+};
+
+type UseAutosaveDraftOptions = {
+  diaryEntryId: number | null;
+  // Version of the entry the form was loaded from; null for a new entry
+  entryVersion: number | null;
+  values: DraftValues;
+  // False until the form shows what is being edited, so loading an entry is not mistaken for typing
+  ready: boolean;
+  onRestore: (values: DraftValues) => void;
+};
+
+function toDraftValues(draft: ServerDraft): DraftValues {
+  return {
+    title: draft.title ?? "",
+    content: draft.content ?? "",
+    contentFormat: draft.contentFormat,
+    date: draft.date ?? new Date(),
+    mood: draft.mood,
+    moodIntensity: draft.moodIntensity,
+    mediaIds: draft.mediaIds ?? [],
+  };
+}
+
+const isBlank = (values: DraftValues) => !values.title.trim() && !values.content.trim() && values.mediaIds.length === 0;
+
+const isConflict = (error: unknown) => error instanceof TRPCClientError && error.data?.code === "CONFLICT";
+
+/**
+ * Keeps an unsaved entry safe while it is being written. Every change is mirrored to IndexedDB
+ * straight away and saved as a server draft once typing pauses; without a connection the local
+ * copy is all there is until the browser comes back online.
+ *
+ * Every server save bumps the draft's version: a save based on an older version than the
+ * server holds means another device wrote in between, and surfaces as the "conflict" status.
+ */
+export function useAutosaveDraft({ diaryEntryId, entryVersion, values, ready, onRestore }: UseAutosaveDraftOptions) {
+  const { user } = useAuth();
+  const utils = trpc.useUtils();
+  const key = user ? draftKey(user.id, diaryEntryId) : null;
+  const serialized = serializeDraft(values);
+
+  const [status, setStatus] = useState<AutosaveStatus>("idle");
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [recovered, setRecovered] = useState<RecoveredDraft | null>(null);
+
+  const statusRef = useRef(status);
+  const valuesRef = useRef(values);
+  const onRestoreRef = useRef(onRestore);
+  valuesRef.current = values;
+  onRestoreRef.current = onRestore;
+  // What the form held when it was last loaded or published, and what was last written out
+  const cleanRef = useRef<string | null>(null);
+  const lastWrittenRef = useRef<string | null>(null);
+  // Server draft version this device last saw; null while it knows of none
+  const tokenRef = useRef<number | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const checkedRef = useRef(false);
+
+  const updateStatus = useCallback((next: AutosaveStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const serverDraftQuery = trpc.drafts.get.useQuery({ diaryEntryId }, { enabled: !!user, refetchOnWindowFocus: false });
+  const { mutateAsync: saveDraft } = trpc.drafts.save.useMutation();
+  const { mutateAsync: discardDraft } = trpc.drafts.discard.useMutation();
+
+  const cancelPending = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  const saveToServer = useCallback(async () => {
+    if (!key) return;
+    if (!navigator.onLine) {
+      updateStatus("offline");
+      return;
+    }
+    const current = valuesRef.current;
+    updateStatus("saving");
+    try {
+      const draft = await saveDraft({ diaryEntryId, ...current, entryVersion, expectedVersion: tokenRef.current });
+      tokenRef.current = draft.version;
+      setSavedAt(draft.updatedAt);
+      // Typing that happened during the request is already queued for the next save
+      if (serializeDraft(valuesRef.current) === serializeDraft(current)) {
+        updateStatus("saved");
+        await putLocalDraft({ key, values: current, entryVersion, savedAt: new Date(), serverVersion: draft.version, synced: true }).catch(() => {});
+      }
+    } catch (error) {
+      updateStatus(isConflict(error) ? "conflict" : "offline");
+    }
+  }, [key, diaryEntryId, entryVersion, saveDraft, updateStatus]);
+
+  const saveToServerRef = useRef(saveToServer);
+  saveToServerRef.current = saveToServer;
+
+  // Mirror every change locally, then save to the server once typing pauses
+  useEffect(() => {
+    if (!ready || !key) return;
+    if (cleanRef.current === null) {
+      cleanRef.current = serialized;
+      lastWrittenRef.current = serialized;
+      return;
+    }
+    if (serialized === lastWrittenRef.current) return;
+    lastWrittenRef.current = serialized;
+
+    putLocalDraft({ key, values: valuesRef.current, entryVersion, savedAt: new Date(), serverVersion: tokenRef.current, synced: false }).catch(() => {});
+    // A conflict waits for the writer to choose a side before anything reaches the server again
+    if (statusRef.current === "conflict") return;
+    updateStatus("pending");
+    cancelPending();
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      saveToServerRef.current();
+    }, SERVER_SAVE_DELAY_MS);
+  }, [ready, key, serialized, entryVersion, cancelPending, updateStatus]);
+
+  // Offer the newest unsaved draft, from this device or the server, once the form is loaded
+  useEffect(() => {
+    if (!ready || !key || checkedRef.current || !serverDraftQuery.isFetched) return;
+    checkedRef.current = true;
+    const serverDraft = serverDraftQuery.data ?? null;
+    tokenRef.current = serverDraft?.version ?? null;
+
+    getLocalDraft(key)
+      .catch(() => undefined)
+      .then((local) => {
+        const candidates = [
+          serverDraft && { values: toDraftValues(serverDraft), savedAt: serverDraft.updatedAt, entryVersion: serverDraft.entryVersion },
+          // Synced copies only repeat the server draft, or outlived it after publishing elsewhere
+          local && !local.synced && { values: local.values, savedAt: local.savedAt, entryVersion: local.entryVersion },
+        ].filter(candidate => !!candidate);
+        const newest = candidates.sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime())[0];
+        if (!newest || isBlank(newest.values) || serializeDraft(newest.values) === cleanRef.current) return;
+        setRecovered({
+          values: newest.values,
+          savedAt: newest.savedAt,
+          entryChanged: !!entryVersion && !!newest.entryVersion && entryVersion !== newest.entryVersion,
+        });
+      });
+  }, [ready, key, serverDraftQuery.isFetched, serverDraftQuery.data, entryVersion]);
+
+  // Catch up on changes kept locally while offline
+  useEffect(() => {
+    const handleOnline = () => {
+      if (statusRef.current === "offline") saveToServerRef.current();
+    };
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, []);
+
+  // Leaving the page saves right away instead of dropping the pending save
+  useEffect(() => () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      saveToServerRef.current();
+    }
+  }, []);
+
+  // The form now shows values saved as the entry itself, so they need no draft
+  const markClean = useCallback((clean: DraftValues) => {
+    cleanRef.current = serializeDraft(clean);
+    lastWrittenRef.current = cleanRef.current;
+  }, []);
+
+  const isDirty = useCallback(() => cleanRef.current !== null && serializeDraft(valuesRef.current) !== cleanRef.current, []);
+
+  // The server draft version this device last saw, so a queued entry drops only that one
+  const draftVersion = useCallback(() => tokenRef.current, []);
+
+  // Called after the entry is published; the server has already dropped its draft
+  const clear = useCallback((clean: DraftValues) => {
+    cancelPending();
+    markClean(clean);
+    tokenRef.current = null;
+    setRecovered(null);
+    updateStatus("idle");
+    if (key) deleteLocalDraft(key).catch(() => {});
+    utils.drafts.get.setData({ diaryEntryId }, null);
+  }, [key, diaryEntryId, cancelPending, markClean, updateStatus, utils]);
+
+  const restore = useCallback(() => {
+    if (!recovered) return;
+    onRestoreRef.current(recovered.values);
+    setRecovered(null);
+  }, [recovered]);
+
+  const discard = useCallback(async () => {
+    cancelPending();
+    setRecovered(null);
+    tokenRef.current = null;
+    updateStatus("idle");
+    if (key) await deleteLocalDraft(key).catch(() => {});
+    await discardDraft({ diaryEntryId }).catch(() => {});
+  }, [key, diaryEntryId, cancelPending, discardDraft, updateStatus]);
+
+  // Conflict: keep this device's text and save it over the other device's draft
+  const keepMine = useCallback(async () => {
+    const latest = await utils.drafts.get.fetch({ diaryEntryId });
+    tokenRef.current = latest?.version ?? null;
+    await saveToServer();
+  }, [diaryEntryId, saveToServer, utils]);
+
+  // Conflict: replace this device's text with the other device's draft
+  const takeTheirs = useCallback(async () => {
+    const latest = await utils.drafts.get.fetch({ diaryEntryId });
+    tokenRef.current = latest?.version ?? null;
+    updateStatus(latest ? "saved" : "idle");
+    if (!latest) return;
+    const theirs = toDraftValues(latest);
+    lastWrittenRef.current = serializeDraft(theirs);
+    setSavedAt(latest.updatedAt);
+    onRestoreRef.current(theirs);
+    if (key) {
+      await putLocalDraft({ key, values: theirs, entryVersion, savedAt: new Date(), serverVersion: latest.version, synced: true }).catch(() => {});
+    }
+  }, [key, diaryEntryId, entryVersion, updateStatus, utils]);
+
+  return {
+    status,
+    savedAt,
+    recovered,
+    // Uploads the server draft is holding for a new entry
+    pendingMedia: serverDraftQuery.data?.pendingMedia ?? [],
+    markClean,
+    isDirty,
+    draftVersion,
+    cancelPending,
+    clear,
+    restore,
+    discard,
+    keepMine,
+    takeTheirs,
+  };
+}
@@ -0,0 +1,53 @@
+export type DiffRow =
+  | { type: "same"; left: string; right: string }
+  | { type: "changed"; left: string; right: string }
+  | { type: "removed"; left: string; right?: undefined }
+  | { type: "added"; left?: undefined; right: string };
+
+/**
+ * Line-based diff laid out for a side-by-side view.
+ * Runs of removed lines followed by added lines are paired up as "changed" rows.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) rows.push({ type: "changed", left: removed[k], right: added[k] });
+    removed.slice(paired).forEach(line => rows.push({ type: "removed", left: line }));
+    added.slice(paired).forEach(line => rows.push({ type: "added", right: line }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: "same", left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+
+  return rows;
+}
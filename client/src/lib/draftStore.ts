@@ -0,0 +1,56 @@
+import { runRequest } from "@/lib/localDb";
+import type { ContentFormat } from "@/lib/markdown";
+import type { DiaryEntry } from "@shared/types";
+
+export type DraftValues = {
+  title: string;
+  content: string;
+  contentFormat: ContentFormat;
+  date: Date;
+  mood: DiaryEntry["mood"];
+  moodIntensity: number | null;
+  mediaIds: number[];
+};
+
+export type LocalDraft = {
+  key: string;
+  values: DraftValues;
+  // Version of the entry the draft was started from; null for a new entry
+  entryVersion: number | null;
+  // When this device last wrote the draft
+  savedAt: Date;
+  // Server draft version this copy was last synced with; null if it never reached the server
+  serverVersion: number | null;
+  synced: boolean;
+};
+
+// Stable text form for comparing drafts, whatever order their fields were built in.
+// Dates round to whole seconds, as MySQL stores them.
+export function serializeDraft(values: DraftValues) {
+  return JSON.stringify([
+    values.title,
+    values.content,
+    values.contentFormat,
+    Math.round(values.date.getTime() / 1000),
+    values.mood,
+    values.moodIntensity,
+    values.mediaIds,
+  ]);
+}
+
+// One slot per user and entry, so accounts sharing a browser never see each other's drafts
+export function draftKey(userId: number, diaryEntryId: number | null) {
+  return `${userId}:${diaryEntryId ?? "new"}`;
+}
+
+export async function getLocalDraft(key: string) {
+  return runRequest<LocalDraft | undefined>("drafts", "readonly", store => store.get(key));
+}
+
+export async function putLocalDraft(draft: LocalDraft) {
+  await runRequest("drafts", "readwrite", store => store.put(draft));
+}
+
+export async function deleteLocalDraft(key: string) {
+  await runRequest("drafts", "readwrite", store => store.delete(key));
+}
@@ -0,0 +1,50 @@
+/**
+ * The browser-side database behind offline use: autosaved drafts, changes waiting to sync,
+ * and the persisted query cache.
+ */
+const DB_NAME = "digital-diary";
+const DB_VERSION = 2;
+
+export type LocalStore = "drafts" | "mutations" | "queryCache";
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore("drafts", { keyPath: "key" });
+      }
+      if (event.oldVersion < 2) {
+        // Auto-incremented keys keep queued changes in the order they were made
+        db.createObjectStore("mutations", { keyPath: "id", autoIncrement: true });
+        db.createObjectStore("queryCache");
+      }
+    };
+    request.onsuccess = () => {
+      // Let a newer version in another tab upgrade instead of blocking on this connection
+      request.result.onversionchange = () => {
+        request.result.close();
+        database = null;
+      };
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+// Runs one request in its own transaction; IndexedDB queues overlapping transactions in order
+export async function runRequest<T>(storeName: LocalStore, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,38 @@
+import type { DiaryEntry } from "@shared/types";
+
+export type ContentFormat = DiaryEntry["contentFormat"];
+export type InlineMedia = { id: number; url: string; name: string };
+
+// Inline images point at the entry's media by id (![alt](media:12)) because stored URLs may expire
+const MEDIA_REFERENCE = /\]\(media:(\d+)\)/g;
+
+export function mediaReference(media: Pick<InlineMedia, "id" | "name">) {
+  const alt = media.name.replace(/[[\]]/g, "");
+  return `![${alt}](media:${media.id})`;
+}
+
+/**
+ * Swaps media:<id> references for the current URL of the entry's own media.
+ * References to media that is gone are left empty so nothing outside the entry loads.
+ */
+export function resolveMediaReferences(content: string, media: InlineMedia[]) {
+  const urls = new Map(media.map(item => [item.id, item.url]));
+  return content.replace(MEDIA_REFERENCE, (_match, id: string) => `](${urls.get(Number(id)) ?? ""})`);
+}
+
+/**
+ * Flattens content to a single line of readable text for list previews.
+ */
+export function toPreviewText(content: string | null | undefined, format: ContentFormat) {
+  if (!content) return "";
+  if (format === "plain") return content;
+  return content
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")           // images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")        // links keep their text
+    .replace(/^\s{0,3}(#{1,6}|>)\s?/gm, "")         // headings and quotes
+    .replace(/^\s*[-*+]\s+\[[ xX]\]\s+/gm, "")     // checklist items
+    .replace(/^\s*([-*+]|\d+\.)\s+/gm, "")          // list markers
+    .replace(/(\*\*|__|\*|_|~~|`)/g, "")            // emphasis and code
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,121 @@
+import { runRequest } from "@/lib/localDb";
+import type { trpc } from "@/lib/trpc";
+import { TRPCClientError } from "@trpc/client";
+import type { inferRouterInputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
+
+type RouterInputs = inferRouterInputs<AppRouter>;
+type QueueClient = ReturnType<typeof trpc.useUtils>["client"];
+
+/**
+ * Changes that may be made without a connection. A new entry carries a clientId so it is
+ * never created twice. It may not discard the new-entry draft outright: by the time it is
+ * replayed that draft may be a newer one, so it names the draft version it was written from.
+ */
+export type OfflineMutation =
+  | { path: "diary.create"; input: Omit<RouterInputs["diary"]["create"], "discardDraft" | "recordedAt"> & { clientId: string }; mediaIds: number[] }
+  | { path: "mood.record"; input: Omit<RouterInputs["mood"]["record"], "recordedAt"> }
+  | { path: "habitCompletions.toggle"; input: Omit<RouterInputs["habitCompletions"]["toggle"], "recordedAt"> };
+
+// Queued changes also carry when they were made, so a newer change from another device is not
+// overwritten. Live sends leave it out: the server's own clock then decides, not this device's
+export type QueuedMutation = OfflineMutation & { input: { recordedAt: Date } };
+
+type QueueRecord = QueuedMutation & { id: number; userId: number; queuedAt: Date };
+
+export type RejectedMutation = { mutation: QueuedMutation; message: string; conflict: boolean };
+
+// Fired whenever the queue changes, so indicators can recount
+export const OFFLINE_QUEUE_EVENT = "diary:offline-queue";
+
+// A request that never got an answer, as opposed to one the server turned down
+export function isNetworkError(error: unknown) {
+  return error instanceof TRPCClientError && !error.data;
+}
+
+export async function enqueueMutation(userId: number, mutation: OfflineMutation, recordedAt: Date) {
+  const queued = { ...mutation, input: { ...mutation.input, recordedAt } };
+  await runRequest("mutations", "readwrite", store => store.add({ ...queued, userId, queuedAt: new Date() }));
+  window.dispatchEvent(new Event(OFFLINE_QUEUE_EVENT));
+}
+
+// Oldest first: the store's auto-incremented keys follow the order changes were made
+export async function getQueuedMutations(userId: number) {
+  const records = await runRequest<QueueRecord[]>("mutations", "readonly", store => store.getAll());
+  return records.filter(record => record.userId === userId);
+}
+
+async function removeQueuedMutation(id: number) {
+  await runRequest("mutations", "readwrite", store => store.delete(id));
+}
+
+/**
+ * Sends a change right away when online. Without a connection, or when the connection
+ * drops mid-request, the change is queued for replay instead, stamped with when it was
+ * made. Queues belong to a user, so without one the change is only ever sent.
+ */
+export async function sendOrQueue<T>(userId: number | undefined, mutation: OfflineMutation, send: () => Promise<T>) {
+  const recordedAt = new Date();
+  if (navigator.onLine || userId === undefined) {
+    try {
+      return { queued: false as const, result: await send() };
+    } catch (error) {
+      if (!isNetworkError(error) || userId === undefined) throw error;
+    }
+  }
+  await enqueueMutation(userId, mutation, recordedAt);
+  return { queued: true as const };
+}
+
+async function sendQueued(client: QueueClient, mutation: QueuedMutation) {
+  switch (mutation.path) {
+    case "diary.create": {
+      const entry = await client.diary.create.mutate(mutation.input);
+      if (mutation.mediaIds.length > 0) {
+        await client.media.attachToEntry.mutate({ mediaIds: mutation.mediaIds, diaryEntryId: entry.id });
+      }
+      return;
+    }
+    case "mood.record":
+      await client.mood.record.mutate(mutation.input);
+      return;
+    case "habitCompletions.toggle":
+      await client.habitCompletions.toggle.mutate(mutation.input);
+      return;
+  }
+}
+
+async function replay(client: QueueClient, userId: number) {
+  let sent = 0;
+  const rejected: RejectedMutation[] = [];
+
+  for (const record of await getQueuedMutations(userId)) {
+    try {
+      await sendQueued(client, record);
+      sent++;
+    } catch (error) {
+      if (!(error instanceof TRPCClientError)) throw error;
+      // Still offline, or signed out: stop here so later changes never overtake this one
+      if (isNetworkError(error) || error.data?.code === "UNAUTHORIZED") break;
+      // Anything else is the server's final answer; retrying would only repeat it
+      rejected.push({ mutation: record, message: error.message, conflict: error.data?.code === "CONFLICT" });
+    }
+    await removeQueuedMutation(record.id);
+  }
+
+  return { sent, rejected };
+}
+
+let replaying: ReturnType<typeof replay> | null = null;
+
+/**
+ * Sends queued changes one at a time, in the order they were made. Only one replay runs
+ * at once; overlapping calls share it.
+ */
+export function replayQueuedMutations(client: QueueClient, userId: number) {
+  replaying ??= replay(client, userId).finally(() => {
+    replaying = null;
+    window.dispatchEvent(new Event(OFFLINE_QUEUE_EVENT));
+  });
+  return replaying;
+}
@@ -0,0 +1,24 @@
+import { createAsyncStoragePersister } from "@tanstack/query-async-storage-persister";
+import type { PersistQueryClientOptions } from "@tanstack/react-query-persist-client";
+import superjson from "superjson";
+import { runRequest } from "@/lib/localDb";
+
+// Long enough to read last week's entries on a trip without signal
+export const QUERY_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const queryPersister = createAsyncStoragePersister({
+  storage: {
+    getItem: key => runRequest<string | undefined>("queryCache", "readonly", store => store.get(key)).then(value => value ?? null),
+    setItem: (key, value) => runRequest("queryCache", "readwrite", store => store.put(value, key)).then(() => undefined),
+    removeItem: key => runRequest("queryCache", "readwrite", store => store.delete(key)).then(() => undefined),
+  },
+  // Query data holds Dates, which plain JSON would hand back as strings
+  serialize: client => superjson.stringify(client),
+  deserialize: cached => superjson.parse(cached),
+  throttleTime: 2000,
+});
+
+export const persistOptions: Omit<PersistQueryClientOptions, "queryClient"> = {
+  persister: queryPersister,
+  maxAge: QUERY_CACHE_MAX_AGE_MS,
+};
@@ -0,0 +1,71 @@
+import { MEDIA_UPLOAD_MAX_BYTES, MEDIA_UPLOAD_MIME_TYPES } from "@shared/const";
+import type { MediaFile, MediaVariant } from "@shared/types";
+
+export type MediaVariantUrls = Pick<MediaVariant, "kind" | "width" | "height" | "fileUrl" | "mimeType">;
+
+// takenAt arrives as an ISO string: the upload route responds with plain JSON
+export type UploadedMedia = Pick<MediaFile, "id" | "fileUrl" | "fileType" | "fileName"> & {
+  takenAt: string | null;
+  variants: MediaVariantUrls[];
+};
+
+type UploadOptions = {
+  diaryEntryId?: number;
+  // Remove GPS coordinates from photos before they are stored
+  stripLocation?: boolean;
+  onProgress?: (fraction: number) => void;
+};
+
+export const acceptedMediaTypes = [...MEDIA_UPLOAD_MIME_TYPES.image, ...MEDIA_UPLOAD_MIME_TYPES.video, ...MEDIA_UPLOAD_MIME_TYPES.audio].join(",");
+
+/**
+ * Returns a user-facing reason the file cannot be uploaded, or null if it is acceptable.
+ * The server repeats these checks; this only saves a doomed upload.
+ */
+export function validateMediaFile(file: File): string | null {
+  if (!(acceptedMediaTypes.split(",") as string[]).includes(file.type)) {
+    return `${file.name}: only images, videos and audio are supported`;
+  }
+  if (file.size > MEDIA_UPLOAD_MAX_BYTES) {
+    return `${file.name}: files must be under ${MEDIA_UPLOAD_MAX_BYTES / (1024 * 1024)}MB`;
+  }
+  return null;
+}
+
+/**
+ * Streams a file to the media upload route. XMLHttpRequest is used because fetch
+ * does not report upload progress.
+ */
+export function uploadMedia(file: File, options: UploadOptions = {}): Promise<UploadedMedia> {
+  return new Promise((resolve, reject) => {
+    const params = new URLSearchParams({ fileName: file.name });
+    if (options.diaryEntryId !== undefined) {
+      params.set("diaryEntryId", String(options.diaryEntryId));
+    }
+    if (options.stripLocation) {
+      params.set("stripLocation", "true");
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `/api/media/upload?${params}`);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Content-Type", file.type);
+    xhr.responseType = "json";
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        options.onProgress?.(event.loaded / event.total);
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response as UploadedMedia);
+      } else {
+        reject(new Error(xhr.response?.error || `Upload failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error while uploading"));
+
+    xhr.send(file);
+  });
+}
@@ -1,14 +1,23 @@
 import { trpc } from "@/lib/trpc";
 import { UNAUTHED_ERR_MSG } from '@shared/const';
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClient } from "@tanstack/react-query";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
 import { httpBatchLink, TRPCClientError } from "@trpc/client";
 import { createRoot } from "react-dom/client";
 import superjson from "superjson";
+import { registerSW } from "virtual:pwa-register";
 import App from "./App";
 import { getLoginUrl } from "./const";
+import { persistOptions, QUERY_CACHE_MAX_AGE_MS } from "./lib/queryPersistence";
 import "./index.css";
 
-const queryClient = new QueryClient();
+// Cached queries outlive their observers as long as they are persisted, so they are there to read offline
+const queryClient = new QueryClient({
+  defaultOptions: { queries: { gcTime: QUERY_CACHE_MAX_AGE_MS } },
+});
+
+// Cache the app shell so the diary opens without a connection; new versions apply on next load
+registerSW({ immediate: true });
 
 const redirectToLoginIfUnauthorized = (error: unknown) => {
   if (!(error instanceof TRPCClientError)) return;
@@ -54,8 +63,8 @@ const trpcClient = trpc.createClient({
 
 createRoot(document.getElementById("root")!).render(
   <trpc.Provider client={trpcClient} queryClient={queryClient}>
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider client={queryClient} persistOptions={persistOptions}>
       <App />
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   </trpc.Provider>
 );
@@ -2,8 +2,9 @@ import { useState } from "react";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DayTimeline } from "@/components/DayTimeline";
 import { trpc } from "@/lib/trpc";
-import { ChevronLeft, ChevronRight, ArrowLeft } from "lucide-react";
+import { ChevronLeft, ChevronRight, ArrowLeft, Plus } from "lucide-react";
 import { useLocation } from "wouter";
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay } from "date-fns";
 
@@ -27,6 +28,7 @@ export default function CalendarPage() {
   const { user } = useAuth();
   const [, navigate] = useLocation();
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [selectedDay, setSelectedDay] = useState(new Date());
 
   // Get mood history for the month
   const monthStart = startOfMonth(currentDate);
@@ -37,12 +39,22 @@ export default function CalendarPage() {
     endDate: monthEnd,
   });
 
+  // Get diary entries for the month
+  const entriesQuery = trpc.diary.listByRange.useQuery({
+    startDate: monthStart,
+    endDate: monthEnd,
+  });
+
   const days = eachDayOfInterval({ start: monthStart, end: monthEnd });
 
   const getMoodForDay = (day: Date) => {
     return moodQuery.data?.find(m => isSameDay(new Date(m.date), day));
   };
 
+  const getEntriesForDay = (day: Date) => {
+    return entriesQuery.data?.filter(e => isSameDay(new Date(e.date), day)) || [];
+  };
+
   const handlePreviousMonth = () => {
     setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1));
   };
@@ -76,7 +88,7 @@ export default function CalendarPage() {
             <div className="flex items-center justify-between">
               <div>
                 <CardTitle>{format(currentDate, "MMMM yyyy")}</CardTitle>
-                <CardDescription>Click on a day to see details</CardDescription>
+                <CardDescription>Click on a day to see its entries</CardDescription>
               </div>
               <div className="flex gap-2">
                 <Button variant="outline" size="icon" onClick={handlePreviousMonth}>
@@ -106,21 +118,31 @@ export default function CalendarPage() {
 
               {days.map((day) => {
                 const mood = getMoodForDay(day);
+                const entryCount = getEntriesForDay(day).length;
                 const isToday = isSameDay(day, new Date());
+                const isSelected = isSameDay(day, selectedDay);
 
                 return (
                   <button
                     key={day.toISOString()}
+                    onClick={() => setSelectedDay(day)}
                     className={`aspect-square rounded-lg border-2 transition-all hover:shadow-md flex flex-col items-center justify-center p-1 ${
                       mood
                         ? `${moodColors[mood.mood || "neutral"]} border-accent`
                         : `border-border hover:border-accent`
-                    } ${isToday ? "ring-2 ring-accent" : ""}`}
+                    } ${isToday ? "ring-2 ring-accent" : ""} ${isSelected ? "shadow-md scale-105" : ""}`}
                   >
                     <span className="text-xs font-semibold">{format(day, "d")}</span>
                     {mood && (
                       <span className="text-lg">{moodEmoji[mood.mood || "neutral"]}</span>
                     )}
+                    {entryCount > 0 && (
+                      <span className="flex gap-0.5 mt-0.5">
+                        {Array.from({ length: Math.min(entryCount, 3) }).map((_, i) => (
+                          <span key={i} className="w-1 h-1 rounded-full bg-accent" />
+                        ))}
+                      </span>
+                    )}
                   </button>
                 );
               })}
@@ -128,6 +150,28 @@ export default function CalendarPage() {
           </CardContent>
         </Card>
 
+        {/* Selected Day Timeline */}
+        <Card className="card-elevated mt-6">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>{format(selectedDay, "EEEE, MMMM d")}</CardTitle>
+                <CardDescription>Diary entries for this day</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => navigate(`/diary?date=${format(selectedDay, "yyyy-MM-dd")}`)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Write Entry
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <DayTimeline
+              entries={getEntriesForDay(selectedDay)}
+              onSelect={(id) => navigate(`/diary/${id}`)}
+            />
+          </CardContent>
+        </Card>
+
         {/* Legend */}
         <Card className="card-elevated mt-6">
           <CardHeader>
@@ -1,127 +1,570 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { DayTimeline } from "@/components/DayTimeline";
+import { MoodChip, moodOptions, type MoodType } from "@/components/MoodChip";
+import { RevisionHistoryDialog } from "@/components/RevisionHistoryDialog";
+import { DailyPromptCard } from "@/components/DailyPromptCard";
+import { Progress } from "@/components/ui/progress";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { trpc } from "@/lib/trpc";
-import { ArrowLeft, Upload, X, Image as ImageIcon, Video } from "lucide-react";
-import { useLocation } from "wouter";
+import { MediaThumbnail } from "@/components/MediaThumbnail";
+import { VoiceNotePlayer } from "@/components/VoiceNotePlayer";
+import { VoiceRecorder } from "@/components/VoiceRecorder";
+import { MarkdownEditor } from "@/components/MarkdownEditor";
+import { toPreviewText, type ContentFormat } from "@/lib/markdown";
+import type { DraftValues } from "@/lib/draftStore";
+import { useAutosaveDraft, type AutosaveStatus } from "@/hooks/useAutosaveDraft";
+import { isNetworkError, sendOrQueue } from "@/lib/offlineQueue";
+import { TRPCClientError } from "@trpc/client";
+import { acceptedMediaTypes, uploadMedia, validateMediaFile, type MediaVariantUrls, type UploadedMedia } from "@/lib/uploadMedia";
+import { MEDIA_UPLOAD_MAX_BYTES } from "@shared/const";
+import type { MediaFile } from "@shared/types";
+import { ArrowLeft, Upload, X, Image as ImageIcon, Trash2, Pencil, Plus, RefreshCw, Hash, History } from "lucide-react";
+import { useLocation, useRoute, useSearch } from "wouter";
 import { toast } from "sonner";
+import { format, isSameDay, startOfDay } from "date-fns";
+
+const STRIP_LOCATION_KEY = "diary-strip-photo-location";
+
+const autosaveLabels: Record<Exclude<AutosaveStatus, "saved">, string> = {
+  idle: "",
+  pending: "Unsaved changes",
+  saving: "Saving draft...",
+  offline: "Offline, draft kept on this device",
+  conflict: "Draft changed on another device",
+};
+
+type LoadedEntry = {
+  title: string | null;
+  content: string | null;
+  contentFormat: ContentFormat;
+  date: Date;
+  mood: MoodType | null;
+  moodIntensity: number | null;
+  version: number;
+};
+
+// The form values an entry loads as, in the shape drafts are compared in
+function entryValues(entry: LoadedEntry): DraftValues {
+  return {
+    title: entry.title || "",
+    content: entry.content || "",
+    contentFormat: entry.contentFormat,
+    date: new Date(entry.date),
+    mood: entry.mood,
+    moodIntensity: entry.mood ? entry.moodIntensity || 5 : null,
+    mediaIds: [],
+  };
+}
+
+// Moves a date to the given yyyy-MM-dd day while keeping its time of day
+function withCalendarDay(date: Date, day: string) {
+  const [year, month, dayOfMonth] = day.split("-").map(Number);
+  const next = new Date(date);
+  next.setFullYear(year, month - 1, dayOfMonth);
+  return next;
+}
+
+// Moves a date to the given HH:mm time while keeping its day
+function withTimeOfDay(date: Date, time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  const next = new Date(date);
+  next.setHours(hours, minutes, 0, 0);
+  return next;
+}
 
 export default function DiaryPage() {
   const { user } = useAuth();
+  const utils = trpc.useUtils();
   const [, navigate] = useLocation();
+  const [, params] = useRoute("/diary/:id");
+  const editingId = params?.id ? Number(params.id) : null;
+  const dateParam = new URLSearchParams(useSearch()).get("date");
   const [title, setTitle] = useState("");
   const [content, setContent] = useState("");
-  const [uploadedFiles, setUploadedFiles] = useState<{ url: string; type: "image" | "video"; name: string }[]>([]);
+  // New entries are Markdown; older plain-text entries keep their format until converted
+  const [contentFormat, setContentFormat] = useState<ContentFormat>("markdown");
+  const [mood, setMood] = useState<MoodType | null>(null);
+  const [moodIntensity, setMoodIntensity] = useState(5);
+  const [entryDate, setEntryDate] = useState(() => (dateParam ? withCalendarDay(new Date(), dateParam) : new Date()));
+  const [uploadedFiles, setUploadedFiles] = useState<{ id: number; url: string; type: MediaFile["fileType"]; name: string; variants: MediaVariantUrls[] }[]>([]);
+  const [uploads, setUploads] = useState<{ id: string; name: string; progress: number }[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [replaceTargetId, setReplaceTargetId] = useState<number | null>(null);
+  const [stripLocation, setStripLocation] = useState(() => localStorage.getItem(STRIP_LOCATION_KEY) === "true");
+  // New entries start ready; edits wait until the entry has been loaded into the form
+  const [formReady, setFormReady] = useState(editingId === null);
+  // Version of the entry the form was loaded from, sent back so a save cannot overwrite a newer one
+  const [loadedVersion, setLoadedVersion] = useState<number | null>(null);
+  const [entryConflict, setEntryConflict] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+
+  // Get recent entries
+  const entriesQuery = trpc.diary.list.useInfiniteQuery(
+    { limit: 20 },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+  const recentEntries = entriesQuery.data?.pages.flatMap(page => page.items) ?? [];
+
+  // Get the entry being edited
+  const entryQuery = trpc.diary.getById.useQuery({ id: editingId ?? 0 }, { enabled: editingId !== null });
+
+  // Get media already attached to the entry being edited
+  const entryMediaQuery = trpc.media.listByEntry.useQuery({ diaryEntryId: editingId ?? 0 }, { enabled: editingId !== null });
+
+  // Get every entry written on the selected day
+  const dayEntriesQuery = trpc.diary.listByDate.useQuery({ date: startOfDay(entryDate) });
+
+  const draftValues: DraftValues = {
+    title,
+    content,
+    contentFormat,
+    date: entryDate,
+    mood,
+    moodIntensity: mood ? moodIntensity : null,
+    // Media is attached to an existing entry as soon as it uploads, so only new entries hold any
+    mediaIds: editingId === null ? uploadedFiles.map(file => file.id) : [],
+  };
+
+  const applyValues = (values: DraftValues) => {
+    setTitle(values.title);
+    setContent(values.content);
+    setContentFormat(values.contentFormat);
+    setMood(values.mood);
+    setMoodIntensity(values.moodIntensity || 5);
+    setEntryDate(values.date);
+  };
+
+  // Autosave the form as a draft
+  const autosave = useAutosaveDraft({
+    diaryEntryId: editingId,
+    entryVersion: loadedVersion,
+    values: draftValues,
+    ready: formReady,
+    onRestore: (values) => {
+      applyValues(values);
+      if (editingId === null) {
+        const pending = autosave.pendingMedia.filter(file => values.mediaIds.includes(file.id));
+        setUploadedFiles(pending.map(m => ({ id: m.id, url: m.fileUrl, type: m.fileType, name: m.fileName || "File", variants: m.variants })));
+      }
+    },
+  });
+
+  const loadEntry = (entry: LoadedEntry) => {
+    const values = entryValues(entry);
+    applyValues(values);
+    autosave.markClean(values);
+    setLoadedVersion(entry.version);
+    setFormReady(true);
+  };
+
+  // Load the entry into the form when editing. A newer version arriving while there are
+  // unsaved edits is left for the save to report as a conflict instead of replacing them.
+  useEffect(() => {
+    if (entryQuery.data && !(formReady && autosave.isDirty())) {
+      loadEntry(entryQuery.data);
+    }
+  }, [entryQuery.data]);
+
+  // Start the entry with the prompt, quoted in Markdown so it reads apart from the answer
+  const handleUsePrompt = (text: string) => {
+    const quoted = contentFormat === "markdown" ? `> ${text}` : text;
+    setContent(content.trim() ? `${quoted}\n\n${content}` : `${quoted}\n\n`);
+  };
 
   // Create diary entry mutation
+  const resetNewEntryForm = () => {
+    setTitle("");
+    setContent("");
+    setMood(null);
+    setMoodIntensity(5);
+    setUploadedFiles([]);
+  };
+
   const createEntryMutation = trpc.diary.create.useMutation({
     onSuccess: () => {
       toast.success("Diary entry saved!");
-      setTitle("");
-      setContent("");
-      setUploadedFiles([]);
+      entriesQuery.refetch();
+      dayEntriesQuery.refetch();
+      resetNewEntryForm();
     },
     onError: (error) => {
+      // Lost connections are queued for later rather than reported
+      if (isNetworkError(error)) return;
       toast.error(error.message || "Failed to save entry");
     },
   });
 
-  // Upload media mutation
-  const uploadMediaMutation = trpc.media.upload.useMutation({
-    onSuccess: (result: any) => {
-      if (result) {
-        const fileUrl = result.fileUrl || "";
-        const fileType = result.fileType || "image";
-        const fileName = result.fileName || "File";
-        setUploadedFiles([...uploadedFiles, { url: fileUrl, type: fileType, name: fileName }]);
-        toast.success("File uploaded successfully!");
+  // Update diary entry mutation
+  const updateEntryMutation = trpc.diary.update.useMutation({
+    onSuccess: () => {
+      toast.success("Diary entry updated!");
+      entriesQuery.refetch();
+      dayEntriesQuery.refetch();
+      entryQuery.refetch();
+    },
+    onError: (error) => {
+      if (error.data?.code === "CONFLICT") {
+        setEntryConflict(true);
+        return;
       }
+      toast.error(error.message || "Failed to update entry");
     },
+  });
+
+  // Attach pending media to a newly saved entry
+  const attachMediaMutation = trpc.media.attachToEntry.useMutation({
     onError: (error) => {
-      toast.error(error.message || "Failed to upload file");
+      if (isNetworkError(error)) return;
+      toast.error(error.message || "Failed to attach media to entry");
     },
   });
 
+  // Move entry to trash mutation
+  const deleteEntryMutation = trpc.diary.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Entry moved to trash");
+      entriesQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete entry");
+    },
+  });
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.currentTarget.files;
-    if (!files) return;
+  // Delete media mutation
+  const deleteMediaMutation = trpc.media.delete.useMutation({
+    onError: (error) => {
+      toast.error(error.message || "Failed to remove file");
+    },
+  });
 
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      const isImage = file.type.startsWith("image/");
-      const isVideo = file.type.startsWith("video/");
+  // Replace media mutation
+  const replaceMediaMutation = trpc.media.replace.useMutation({
+    onError: (error) => {
+      toast.error(error.message || "Failed to replace file");
+    },
+  });
 
-      if (!isImage && !isVideo) {
-        toast.error("Only images and videos are supported");
-        continue;
+  // Transcribe voice note mutation; the transcript is added to the entry body
+  const transcribeMutation = trpc.voice.transcribe.useMutation({
+    onSuccess: (transcript) => {
+      utils.voice.getTranscript.setData({ mediaFileId: transcript.mediaFileId }, transcript);
+      if (!transcript.text) {
+        toast.info("No speech was found in the recording");
+        return;
       }
+      setContent(current => (current.trim() ? `${current.trimEnd()}\n\n${transcript.text}` : transcript.text));
+      toast.success("Transcript added to your entry");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to transcribe voice note");
+    },
+  });
 
-      // Read file as base64
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        const base64 = (event.target?.result as string).split(",")[1];
-        if (!base64) return;
-
-        await uploadMediaMutation.mutateAsync({
-          fileName: file.name,
-          fileData: base64,
-          fileType: isImage ? "image" : "video",
-          mimeType: file.type,
-        });
-      };
-      reader.readAsDataURL(file);
+  const handleStripLocationChange = (checked: boolean) => {
+    setStripLocation(checked);
+    localStorage.setItem(STRIP_LOCATION_KEY, String(checked));
+  };
+
+  // Offers to move the entry to the day a photo was actually taken
+  const offerTakenAtDate = (result: UploadedMedia) => {
+    if (!result.takenAt) return;
+    const takenAt = new Date(result.takenAt);
+    if (isSameDay(takenAt, entryDate)) return;
+    toast(`${result.fileName || "Photo"} was taken on ${format(takenAt, "MMMM d, yyyy")}`, {
+      action: {
+        label: "Use this date",
+        onClick: () => setEntryDate(date => withCalendarDay(date, format(takenAt, "yyyy-MM-dd"))),
+      },
+    });
+  };
+
+  const handleUploadedMedia = (result: UploadedMedia) => {
+    offerTakenAtDate(result);
+    if (editingId !== null) {
+      entryMediaQuery.refetch();
+    } else {
+      // Held until the new entry is saved, then attached to it
+      setUploadedFiles(files => [...files, { id: result.id, url: result.fileUrl, type: result.fileType, name: result.fileName || "File", variants: result.variants }]);
+    }
+  };
+
+  // Uploads one file while tracking its progress; resolves to null if it was rejected or failed
+  const uploadWithProgress = async (file: File, diaryEntryId?: number) => {
+    const problem = validateMediaFile(file);
+    if (problem) {
+      toast.error(problem);
+      return null;
+    }
+
+    const uploadId = `${file.name}-${file.lastModified}-${Math.random()}`;
+    setUploads(current => [...current, { id: uploadId, name: file.name, progress: 0 }]);
+    try {
+      const result = await uploadMedia(file, {
+        diaryEntryId,
+        stripLocation,
+        onProgress: (progress) => setUploads(current => current.map(u => (u.id === uploadId ? { ...u, progress } : u))),
+      });
+      toast.success(`${file.name} uploaded`);
+      return result;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to upload file");
+      return null;
+    } finally {
+      setUploads(current => current.filter(u => u.id !== uploadId));
     }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.currentTarget.files ?? []);
 
     // Reset input
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
+
+    await Promise.all(files.map(async (file) => {
+      const result = await uploadWithProgress(file, editingId ?? undefined);
+      if (result) handleUploadedMedia(result);
+    }));
+  };
+
+  const handleVoiceRecorded = async (file: File) => {
+    const result = await uploadWithProgress(file, editingId ?? undefined);
+    if (!result) return;
+    handleUploadedMedia(result);
+    transcribeMutation.mutate({ mediaFileId: result.id });
+  };
+
+  const handleReplaceSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.currentTarget.files?.[0];
+    const targetId = replaceTargetId;
+
+    // Reset input
+    if (replaceInputRef.current) {
+      replaceInputRef.current.value = "";
+    }
+    setReplaceTargetId(null);
+    if (!file || targetId === null) return;
+
+    const result = await uploadWithProgress(file);
+    if (!result) return;
+
+    await replaceMediaMutation.mutateAsync({ id: targetId, replacementId: result.id });
+    if (editingId !== null) {
+      entryMediaQuery.refetch();
+    } else {
+      setUploadedFiles(files => files.map(f => (
+        f.id === targetId ? { id: result.id, url: result.fileUrl, type: result.fileType, name: result.fileName || "File", variants: result.variants } : f
+      )));
+    }
+  };
+
+  const handleRemoveMedia = async (id: number) => {
+    await deleteMediaMutation.mutateAsync({ id });
+    if (editingId !== null) {
+      entryMediaQuery.refetch();
+    } else {
+      setUploadedFiles(files => files.filter(f => f.id !== id));
+    }
   };
 
-  const handleSaveEntry = async () => {
+  const displayedFiles = editingId !== null
+    ? (entryMediaQuery.data || []).map(m => ({ id: m.id, url: m.fileUrl, type: m.fileType, name: m.fileName || "File", variants: m.variants }))
+    : uploadedFiles;
+  const voiceNotes = displayedFiles.filter(file => file.type === "audio");
+  const visualFiles = displayedFiles.filter(file => file.type !== "audio");
+
+  // overwrite skips the version check, after the writer chose to replace a newer version
+  const handleSaveEntry = async ({ overwrite = false } = {}) => {
     if (!title.trim() && !content.trim()) {
       toast.error("Please add a title or content");
       return;
     }
 
     setIsLoading(true);
+    // Publishing replaces the draft, so a late autosave must not bring it back
+    autosave.cancelPending();
     try {
-      await createEntryMutation.mutateAsync({
-        title: title || undefined,
-        content: content || undefined,
-        date: new Date(),
-      });
+      if (editingId !== null) {
+        await updateEntryMutation.mutateAsync({
+          id: editingId,
+          title,
+          content,
+          contentFormat,
+          date: entryDate,
+          mood,
+          moodIntensity: mood ? moodIntensity : null,
+          expectedVersion: overwrite ? undefined : loadedVersion ?? undefined,
+        });
+        autosave.clear(draftValues);
+      } else {
+        const pendingMediaIds = uploadedFiles.map(file => file.id);
+        const input = {
+          title: title || undefined,
+          content: content || undefined,
+          contentFormat,
+          date: entryDate,
+          mood: mood ?? undefined,
+          moodIntensity: mood ? moodIntensity : undefined,
+          clientId: crypto.randomUUID(),
+        };
+        const draftVersion = autosave.draftVersion();
+        const queuedInput = draftVersion !== null ? { ...input, discardDraftVersion: draftVersion } : input;
+        const { queued } = await sendOrQueue(user?.id, { path: "diary.create", input: queuedInput, mediaIds: pendingMediaIds }, async () => {
+          const entry = await createEntryMutation.mutateAsync({ ...input, discardDraft: true });
+          if (pendingMediaIds.length > 0) {
+            await attachMediaMutation.mutateAsync({ mediaIds: pendingMediaIds, diaryEntryId: entry.id });
+          }
+        });
+        if (queued) {
+          toast.success("Saved offline. The entry will sync when you're back online.");
+          resetNewEntryForm();
+        }
+        // Matches the form once it has been reset
+        autosave.clear({ ...draftValues, title: "", content: "", mood: null, moodIntensity: null, mediaIds: [] });
+      }
+    } catch (error) {
+      if (!(error instanceof TRPCClientError)) throw error;
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleLoadLatest = async () => {
+    setEntryConflict(false);
+    const { data } = await entryQuery.refetch();
+    if (data) loadEntry(data);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900 py-8">
       <div className="container max-w-3xl">
         {/* Header */}
-        <div className="mb-8 flex items-center gap-4">
-          <Button variant="ghost" size="icon" onClick={() => navigate("/")}>
-            <ArrowLeft className="w-5 h-5" />
-          </Button>
-          <div>
-            <h1 className="text-3xl font-bold text-foreground">New Diary Entry</h1>
-            <p className="text-muted-foreground">Write about your day and add photos or videos</p>
+        <div className="mb-8 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">{editingId !== null ? "Edit Diary Entry" : "New Diary Entry"}</h1>
+              <p className="text-muted-foreground">
+                {editingId !== null ? "Correct or extend an earlier entry" : "Write about your day and add photos or videos"}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {editingId !== null && entryQuery.data && (
+              <RevisionHistoryDialog
+                diaryEntryId={editingId}
+                currentTitle={entryQuery.data.title || ""}
+                currentContent={entryQuery.data.content || ""}
+                onRestored={() => {
+                  entryQuery.refetch();
+                  entriesQuery.refetch();
+                }}
+              />
+            )}
+            <Button variant="outline" onClick={() => navigate("/tags")}>
+              <Hash className="w-4 h-4 mr-2" />
+              Tags
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/trash")}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Trash
+            </Button>
           </div>
         </div>
 
+        {/* Day Timeline */}
+        <Card className="card-elevated mb-6">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>{format(entryDate, "EEEE, MMMM d")}</CardTitle>
+                <CardDescription>Everything you wrote on this day</CardDescription>
+              </div>
+              {editingId !== null && (
+                <Button variant="outline" size="sm" onClick={() => navigate(`/diary?date=${format(entryDate, "yyyy-MM-dd")}`)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Entry
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <DayTimeline
+              entries={dayEntriesQuery.data || []}
+              activeId={editingId}
+              onSelect={(id) => navigate(`/diary/${id}`)}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Recovered Draft */}
+        {autosave.recovered && (
+          <Card className="card-elevated mb-6 border-accent">
+            <CardContent className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <History className="w-5 h-5 mt-0.5 text-accent" />
+                <div>
+                  <p className="font-medium">Unsaved draft from {format(autosave.recovered.savedAt, "MMMM d, h:mm a")}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {autosave.recovered.entryChanged
+                      ? "This entry was saved again after the draft was written. Restoring replaces what you see now."
+                      : "Pick up where you left off, or discard the draft."}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => autosave.discard()}>Discard</Button>
+                <Button onClick={autosave.restore}>Restore Draft</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Daily Prompt */}
+        {editingId === null && !autosave.recovered && <DailyPromptCard onUse={handleUsePrompt} />}
+
         {/* Entry Form */}
         <Card className="card-elevated mb-6">
           <CardHeader>
-            <CardTitle>Entry Details</CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle>Entry Details</CardTitle>
+              <span className="text-xs text-muted-foreground">
+                {autosave.status === "saved"
+                  ? `Draft saved ${autosave.savedAt ? format(autosave.savedAt, "h:mm a") : ""}`
+                  : autosaveLabels[autosave.status]}
+              </span>
+            </div>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium">Date</label>
+                <Input
+                  type="date"
+                  value={format(entryDate, "yyyy-MM-dd")}
+                  onChange={(e) => e.target.value && setEntryDate(withCalendarDay(entryDate, e.target.value))}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Time</label>
+                <Input
+                  type="time"
+                  value={format(entryDate, "HH:mm")}
+                  onChange={(e) => e.target.value && setEntryDate(withTimeOfDay(entryDate, e.target.value))}
+                />
+              </div>
+            </div>
             <div>
               <label className="text-sm font-medium">Title (Optional)</label>
               <Input
@@ -131,22 +574,74 @@ export default function DiaryPage() {
               />
             </div>
             <div>
-              <label className="text-sm font-medium">What's on your mind?</label>
-              <Textarea
-                placeholder="Write your thoughts, feelings, and experiences..."
+              <div className="flex items-center justify-between mb-1">
+                <label className="text-sm font-medium">What's on your mind?</label>
+                {contentFormat === "plain" && (
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setContentFormat("markdown")}>
+                    Switch to Markdown
+                  </Button>
+                )}
+              </div>
+              <MarkdownEditor
+                placeholder="Write your thoughts, feelings, and experiences... Use #tags and @names to organize entries"
                 value={content}
-                onChange={(e) => setContent(e.target.value)}
-                className="min-h-48"
+                onChange={setContent}
+                format={contentFormat}
+                media={displayedFiles.filter(file => file.type === "image")}
               />
+              <div className="flex items-center gap-3 mt-2">
+                <VoiceRecorder onRecorded={handleVoiceRecorded} disabled={transcribeMutation.isPending} />
+                {transcribeMutation.isPending && <span className="text-sm text-muted-foreground">Transcribing...</span>}
+              </div>
             </div>
           </CardContent>
         </Card>
 
+        {/* Mood */}
+        <Card className="card-elevated mb-6">
+          <CardHeader>
+            <CardTitle>Mood (Optional)</CardTitle>
+            <CardDescription>How were you feeling when you wrote this?</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-5 gap-2">
+              {moodOptions.map((option) => (
+                <button
+                  key={option.type}
+                  onClick={() => setMood(mood === option.type ? null : option.type)}
+                  className={`flex flex-col items-center justify-center p-2 rounded-lg transition-all ${option.color} ${
+                    mood === option.type ? "ring-2 ring-accent scale-105" : "opacity-70 hover:opacity-100"
+                  }`}
+                >
+                  <span className="text-2xl">{option.emoji}</span>
+                  <span className="text-xs font-medium">{option.label}</span>
+                </button>
+              ))}
+            </div>
+            {mood && (
+              <div className="space-y-2">
+                <Slider
+                  value={[moodIntensity]}
+                  onValueChange={(value) => setMoodIntensity(value[0])}
+                  min={1}
+                  max={10}
+                  step={1}
+                />
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>Mild (1)</span>
+                  <span className="font-semibold text-foreground">{moodIntensity}/10</span>
+                  <span>Intense (10)</span>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Media Upload */}
         <Card className="card-elevated mb-6">
           <CardHeader>
             <CardTitle>Add Photos & Videos</CardTitle>
-            <CardDescription>Upload images or videos to attach to this entry</CardDescription>
+            <CardDescription>Upload images, videos or audio to attach to this entry</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -156,39 +651,90 @@ export default function DiaryPage() {
               >
                 <Upload className="w-8 h-8 mx-auto mb-2 text-muted-foreground" />
                 <p className="font-medium">Click to upload or drag and drop</p>
-                <p className="text-sm text-muted-foreground">PNG, JPG, MP4, WebM up to 10MB</p>
+                <p className="text-sm text-muted-foreground">PNG, JPG, MP4, WebM, MP3 up to {MEDIA_UPLOAD_MAX_BYTES / (1024 * 1024)}MB</p>
                 <input
                   ref={fileInputRef}
                   type="file"
                   multiple
-                  accept="image/*,video/*"
+                  accept={acceptedMediaTypes}
                   onChange={handleFileSelect}
                   className="hidden"
                 />
+                <input
+                  ref={replaceInputRef}
+                  type="file"
+                  accept={acceptedMediaTypes}
+                  onChange={handleReplaceSelect}
+                  onClick={(e) => e.stopPropagation()}
+                  className="hidden"
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="strip-location" className="text-sm font-normal text-muted-foreground">
+                  Remove location data from photos
+                </Label>
+                <Switch id="strip-location" checked={stripLocation} onCheckedChange={handleStripLocationChange} />
               </div>
 
+              {/* Uploads In Progress */}
+              {uploads.map((upload) => (
+                <div key={upload.id} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="truncate">{upload.name}</span>
+                    <span className="text-muted-foreground">{Math.round(upload.progress * 100)}%</span>
+                  </div>
+                  <Progress value={upload.progress * 100} />
+                </div>
+              ))}
+
+              {/* Voice Notes */}
+              {voiceNotes.map((file) => (
+                <div key={file.id} className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <VoiceNotePlayer
+                      mediaFileId={file.id}
+                      url={file.url}
+                      name={file.name}
+                      onTranscribe={() => transcribeMutation.mutate({ mediaFileId: file.id })}
+                      transcribing={transcribeMutation.isPending && transcribeMutation.variables?.mediaFileId === file.id}
+                    />
+                  </div>
+                  <button
+                    onClick={() => handleRemoveMedia(file.id)}
+                    className="bg-red-500 text-white p-1 rounded-full"
+                    title="Remove"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+
               {/* Uploaded Files */}
-              {uploadedFiles.length > 0 && (
+              {visualFiles.length > 0 && (
                 <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-                  {uploadedFiles.map((file, index) => (
-                    <div key={index} className="relative group">
-                      {file.type === "image" ? (
-                        <img
-                          src={file.url}
-                          alt={file.name}
-                          className="w-full h-32 object-cover rounded-lg"
-                        />
-                      ) : (
-                        <div className="w-full h-32 bg-slate-200 dark:bg-slate-700 rounded-lg flex items-center justify-center">
-                          <Video className="w-8 h-8 text-muted-foreground" />
-                        </div>
-                      )}
-                      <button
-                        onClick={() => setUploadedFiles(uploadedFiles.filter((_, i) => i !== index))}
-                        className="absolute top-1 right-1 bg-red-500 text-white p-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                      >
-                        <X className="w-4 h-4" />
-                      </button>
+                  {visualFiles.map((file) => (
+                    <div key={file.id} className="relative group">
+                      <MediaThumbnail url={file.url} type={file.type} name={file.name} variants={file.variants} />
+                      <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => {
+                            setReplaceTargetId(file.id);
+                            replaceInputRef.current?.click();
+                          }}
+                          className="bg-slate-700 text-white p-1 rounded-full"
+                          title="Replace"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRemoveMedia(file.id)}
+                          className="bg-red-500 text-white p-1 rounded-full"
+                          title="Remove"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
                       <p className="text-xs text-muted-foreground mt-1 truncate">{file.name}</p>
                     </div>
                   ))}
@@ -203,18 +749,101 @@ export default function DiaryPage() {
           <Button
             variant="outline"
             className="flex-1"
-            onClick={() => navigate("/")}
+            onClick={() => navigate(editingId !== null ? "/diary" : "/")}
           >
             Cancel
           </Button>
           <Button
             className="flex-1 bg-accent hover:bg-accent/90 text-white"
-            onClick={handleSaveEntry}
-            disabled={isLoading || createEntryMutation.isPending}
+            onClick={() => handleSaveEntry()}
+            disabled={isLoading || uploads.length > 0 || createEntryMutation.isPending || updateEntryMutation.isPending}
           >
-            {isLoading ? "Saving..." : "Save Entry"}
+            {isLoading ? "Saving..." : editingId !== null ? "Save Changes" : "Save Entry"}
           </Button>
         </div>
+
+        {/* Entry Conflict */}
+        <AlertDialog open={entryConflict} onOpenChange={setEntryConflict}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>This entry changed on another device</AlertDialogTitle>
+              <AlertDialogDescription>
+                A newer version was saved while you were editing. Overwrite it with your version (the newer one stays in
+                the entry's history), or load the latest version instead.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel onClick={handleLoadLatest}>Load Latest</AlertDialogCancel>
+              <AlertDialogAction onClick={() => handleSaveEntry({ overwrite: true })}>Overwrite</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {/* Draft Conflict */}
+        <AlertDialog open={autosave.status === "conflict"}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>This draft was changed on another device</AlertDialogTitle>
+              <AlertDialogDescription>
+                You are writing this entry in more than one place. Keep the text on this device, or switch to the draft
+                saved from the other one.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel onClick={() => autosave.takeTheirs()}>Use Other Draft</AlertDialogCancel>
+              <AlertDialogAction onClick={() => autosave.keepMine()}>Keep Mine</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {/* Recent Entries */}
+        {recentEntries.length > 0 && (
+          <Card className="card-elevated mt-6">
+            <CardHeader>
+              <CardTitle>Recent Entries</CardTitle>
+              <CardDescription>Your latest diary entries</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {recentEntries.map((entry) => (
+                <div key={entry.id} className="flex items-start justify-between gap-4 p-3 rounded-lg border border-border">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{entry.title || "Untitled entry"}</p>
+                      <MoodChip mood={entry.mood} intensity={entry.moodIntensity} />
+                    </div>
+                    <p className="text-xs text-muted-foreground">{format(new Date(entry.date), "EEEE, MMMM d, yyyy")}</p>
+                    {entry.content && (
+                      <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{toPreviewText(entry.content, entry.contentFormat)}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => navigate(`/diary/${entry.id}`)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteEntryMutation.mutate({ id: entry.id })}
+                      disabled={deleteEntryMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {entriesQuery.hasNextPage && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => entriesQuery.fetchNextPage()}
+                  disabled={entriesQuery.isFetchingNextPage}
+                >
+                  {entriesQuery.isFetchingNextPage ? "Loading..." : "Load Older Entries"}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
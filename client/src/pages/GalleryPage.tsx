@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious, type CarouselApi } from "@/components/ui/carousel";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { MediaThumbnail } from "@/components/MediaThumbnail";
+import { trpc } from "@/lib/trpc";
+import { ArrowLeft, BookOpen } from "lucide-react";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+
+type FileTypeFilter = "all" | "image" | "video";
+
+const PAGE_SIZE = 30;
+
+export default function GalleryPage() {
+  const [, navigate] = useLocation();
+  const [fileType, setFileType] = useState<FileTypeFilter>("all");
+  const [month, setMonth] = useState("all");
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [carouselApi, setCarouselApi] = useState<CarouselApi>();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const filters = {
+    fileType: fileType === "all" ? undefined : fileType,
+    month: month === "all" ? undefined : month,
+  };
+
+  // Get media, a page at a time
+  const galleryQuery = trpc.media.listGallery.useInfiniteQuery(
+    { limit: PAGE_SIZE, ...filters },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+  const monthsQuery = trpc.media.galleryMonths.useQuery({ fileType: filters.fileType });
+
+  const items = useMemo(() => galleryQuery.data?.pages.flatMap(page => page.items) ?? [], [galleryQuery.data]);
+
+  // Group consecutive items by the day they were taken
+  const groups = useMemo(() => {
+    const result: { day: string; items: { item: (typeof items)[number]; index: number }[] }[] = [];
+    items.forEach((item, index) => {
+      const day = format(new Date(item.mediaDate), "yyyy-MM-dd");
+      const current = result[result.length - 1];
+      if (current?.day === day) {
+        current.items.push({ item, index });
+      } else {
+        result.push({ day, items: [{ item, index }] });
+      }
+    });
+    return result;
+  }, [items]);
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && galleryQuery.hasNextPage && !galleryQuery.isFetchingNextPage) {
+        galleryQuery.fetchNextPage();
+      }
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [galleryQuery.hasNextPage, galleryQuery.isFetchingNextPage, galleryQuery.fetchNextPage]);
+
+  // Keep the lightbox index in sync with the carousel, and prefetch before running out of slides
+  useEffect(() => {
+    if (!carouselApi) return;
+    const onSelect = () => {
+      const index = carouselApi.selectedScrollSnap();
+      setLightboxIndex(index);
+      if (index >= items.length - 3 && galleryQuery.hasNextPage && !galleryQuery.isFetchingNextPage) {
+        galleryQuery.fetchNextPage();
+      }
+    };
+    carouselApi.on("select", onSelect);
+    return () => {
+      carouselApi.off("select", onSelect);
+    };
+  }, [carouselApi, items.length, galleryQuery.hasNextPage, galleryQuery.isFetchingNextPage, galleryQuery.fetchNextPage]);
+
+  const activeItem = lightboxIndex !== null ? items[lightboxIndex] : undefined;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900 py-8">
+      <div className="container max-w-6xl">
+        {/* Header */}
+        <div className="mb-8 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Gallery</h1>
+              <p className="text-muted-foreground">Every photo and video from your diary</p>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="flex gap-2">
+            <Select value={fileType} onValueChange={(value) => setFileType(value as FileTypeFilter)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All media</SelectItem>
+                <SelectItem value="image">Photos</SelectItem>
+                <SelectItem value="video">Videos</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={month} onValueChange={setMonth}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All months</SelectItem>
+                {monthsQuery.data?.map(({ month: value, count }) => (
+                  <SelectItem key={value} value={value}>
+                    {format(new Date(`${value}-01T00:00:00`), "MMMM yyyy")} ({count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {galleryQuery.isLoading ? (
+          <div className="flex justify-center py-16">
+            <Spinner />
+          </div>
+        ) : items.length === 0 ? (
+          <Card className="card-elevated">
+            <CardContent className="pt-12 pb-12 text-center">
+              <p className="text-muted-foreground">No photos or videos yet. Add some to a diary entry to see them here.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            {groups.map((group) => (
+              <section key={group.day}>
+                <h2 className="text-sm font-semibold text-muted-foreground mb-3">
+                  {format(new Date(`${group.day}T00:00:00`), "EEEE, MMMM d, yyyy")}
+                </h2>
+                <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+                  {group.items.map(({ item, index }) => (
+                    <button key={item.id} onClick={() => setLightboxIndex(index)} className="focus:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded-lg">
+                      <MediaThumbnail
+                        url={item.fileUrl}
+                        type={item.fileType}
+                        name={item.fileName || "Media"}
+                        variants={item.variants}
+                        sizes="(min-width: 768px) 20vw, 33vw"
+                        className="h-auto aspect-square"
+                      />
+                    </button>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+
+        <div ref={sentinelRef} className="flex justify-center py-8">
+          {galleryQuery.isFetchingNextPage && <Spinner />}
+        </div>
+      </div>
+
+      {/* Lightbox */}
+      <Dialog open={lightboxIndex !== null} onOpenChange={(open) => !open && setLightboxIndex(null)}>
+        <DialogContent className="sm:max-w-4xl">
+          <DialogTitle className="truncate">{activeItem?.fileName || "Media"}</DialogTitle>
+          <DialogDescription>
+            {activeItem && format(new Date(activeItem.mediaDate), "EEEE, MMMM d, yyyy 'at' h:mm a")}
+            {activeItem?.camera && ` · ${activeItem.camera}`}
+          </DialogDescription>
+
+          {lightboxIndex !== null && (
+            <Carousel setApi={setCarouselApi} opts={{ startIndex: lightboxIndex }} className="mx-12">
+              <CarouselContent>
+                {items.map((item) => {
+                  const poster = item.variants.find(variant => variant.kind === "poster");
+                  return (
+                    <CarouselItem key={item.id} className="flex items-center justify-center">
+                      {item.fileType === "image" ? (
+                        <img src={item.fileUrl} alt={item.fileName || "Photo"} className="max-h-[70vh] object-contain rounded-lg" />
+                      ) : (
+                        <video src={item.fileUrl} poster={poster?.fileUrl} controls preload="metadata" className="max-h-[70vh] rounded-lg" />
+                      )}
+                    </CarouselItem>
+                  );
+                })}
+              </CarouselContent>
+              <CarouselPrevious />
+              <CarouselNext />
+            </Carousel>
+          )}
+
+          {activeItem?.diaryEntryId && (
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => navigate(`/diary/${activeItem.diaryEntryId}`)}>
+                <BookOpen className="w-4 h-4 mr-2" />
+                Open Entry
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -6,9 +6,11 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { trpc } from "@/lib/trpc";
+import { isNetworkError, sendOrQueue } from "@/lib/offlineQueue";
 import { Plus, ArrowLeft, Trash2 } from "lucide-react";
 import { useLocation } from "wouter";
 import { toast } from "sonner";
+import { startOfDay } from "date-fns";
 
 export default function HabitsPage() {
   const { user } = useAuth();
@@ -21,7 +23,10 @@ export default function HabitsPage() {
   const habitsQuery = trpc.habits.list.useQuery();
 
   // Get today's completions
-  const completionsQuery = trpc.habitCompletions.getByDate.useQuery({ date: new Date() });
+  // Day-aligned so the key is stable and today's check-ins can be read from the offline cache
+  const today = startOfDay(new Date());
+  const completionsQuery = trpc.habitCompletions.getByDate.useQuery({ date: today });
+  const utils = trpc.useUtils();
 
   // Create habit mutation
   const createHabitMutation = trpc.habits.create.useMutation({
@@ -43,6 +48,8 @@ export default function HabitsPage() {
       completionsQuery.refetch();
     },
     onError: (error) => {
+      // Lost connections are queued for later rather than reported
+      if (isNetworkError(error)) return;
       toast.error(error.message || "Failed to update habit");
     },
   });
@@ -72,11 +79,19 @@ export default function HabitsPage() {
     });
   };
 
-  const handleToggleHabit = (habitId: number, currentCompleted: boolean) => {
-    toggleCompletionMutation.mutate({
-      habitId,
-      date: new Date(),
-      completed: !currentCompleted,
+  const handleToggleHabit = async (habitId: number, currentCompleted: boolean) => {
+    const input = { habitId, date: new Date(), completed: !currentCompleted };
+    const outcome = await sendOrQueue(user?.id, { path: "habitCompletions.toggle", input }, () => toggleCompletionMutation.mutateAsync(input))
+      .catch(() => null); // Already reported by the mutation's onError
+    if (!outcome?.queued) return;
+
+    // Show the queued check-in now; the row is replaced by the real one after syncing
+    utils.habitCompletions.getByDate.setData({ date: today }, (rows = []) => {
+      const completed = input.completed ? 1 : 0;
+      if (rows.some(row => row.habitId === habitId)) {
+        return rows.map(row => (row.habitId === habitId ? { ...row, completed } : row));
+      }
+      return [...rows, { id: -habitId, habitId, userId: user?.id ?? 0, date: input.date, completed, notes: null, completedAt: null, createdAt: input.date, updatedAt: input.date }];
     });
   };
 
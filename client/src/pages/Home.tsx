@@ -1,8 +1,10 @@
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Kbd } from "@/components/ui/kbd";
+import { openSearch } from "@/components/SearchCommand";
 import { useLocation } from "wouter";
-import { Heart, BookOpen, TrendingUp, Calendar } from "lucide-react";
+import { Heart, BookOpen, TrendingUp, Calendar, Images, Search, MessageCircle } from "lucide-react";
 import { useEffect, useState } from "react";
 import { trpc } from "@/lib/trpc";
 
@@ -79,9 +81,16 @@ export default function Home() {
     <div className="min-h-screen py-8" style={{backgroundColor: '#351e28'}}>
       <div className="container">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold mb-2" style={{color: '#fed1bd'}}>Welcome back, {user?.name || "Friend"}</h1>
-          <p style={{color: '#fed1bd'}}>Today is {new Date().toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" })}</p>
+        <div className="mb-8 flex flex-col md:flex-row md:items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2" style={{color: '#fed1bd'}}>Welcome back, {user?.name || "Friend"}</h1>
+            <p style={{color: '#fed1bd'}}>Today is {new Date().toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" })}</p>
+          </div>
+          <Button variant="outline" onClick={openSearch} style={{borderColor: '#fed1bd', color: '#fed1bd', backgroundColor: 'transparent'}}>
+            <Search className="w-4 h-4 mr-2" />
+            Search
+            <Kbd className="ml-3">{navigator.platform.includes("Mac") ? "⌘K" : "Ctrl K"}</Kbd>
+          </Button>
         </div>
 
         {/* Quick Stats Grid */}
@@ -172,7 +181,7 @@ export default function Home() {
         </div>
 
         {/* Quick Actions */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
           <Card className="card-elevated cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate("/diary")} style={{backgroundColor: '#351e28', borderColor: '#fed1bd'}}>
             <CardHeader>
               <CardTitle className="flex items-center gap-2" style={{color: '#fed1bd'}}>
@@ -202,6 +211,26 @@ export default function Home() {
               <CardDescription style={{color: '#fed1bd'}}>See your mood and habit history</CardDescription>
             </CardHeader>
           </Card>
+
+          <Card className="card-elevated cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate("/gallery")} style={{backgroundColor: '#351e28', borderColor: '#fed1bd'}}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2" style={{color: '#fed1bd'}}>
+                <Images className="w-5 h-5" />
+                Browse Gallery
+              </CardTitle>
+              <CardDescription style={{color: '#fed1bd'}}>Relive your photos and videos</CardDescription>
+            </CardHeader>
+          </Card>
+
+          <Card className="card-elevated cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate("/reflect")} style={{backgroundColor: '#351e28', borderColor: '#fed1bd'}}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2" style={{color: '#fed1bd'}}>
+                <MessageCircle className="w-5 h-5" />
+                Reflect
+              </CardTitle>
+              <CardDescription style={{color: '#fed1bd'}}>Ask about your own journal</CardDescription>
+            </CardHeader>
+          </Card>
         </div>
       </div>
     </div>
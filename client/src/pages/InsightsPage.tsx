@@ -1,12 +1,13 @@
 import { useState } from "react";
 import { useAuth } from "@/_core/hooks/useAuth";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { trpc } from "@/lib/trpc";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
-import { ArrowLeft, TrendingUp } from "lucide-react";
+import { ArrowLeft, BookOpen, Sparkles, TrendingUp } from "lucide-react";
 import { useLocation } from "wouter";
-import { subDays, startOfDay, endOfDay } from "date-fns";
+import { subDays, startOfDay, endOfDay, format } from "date-fns";
 import { toast } from "sonner";
 
 const COLORS = ["#10b981", "#3b82f6", "#6b7280", "#a855f7", "#ef4444"];
@@ -14,6 +15,7 @@ const COLORS = ["#10b981", "#3b82f6", "#6b7280", "#a855f7", "#ef4444"];
 export default function InsightsPage() {
   const { user } = useAuth();
   const [, navigate] = useLocation();
+  const utils = trpc.useUtils();
   const [selectedPeriod, setSelectedPeriod] = useState<"week" | "month" | "year">("week");
 
   // Calculate date range
@@ -35,9 +37,22 @@ export default function InsightsPage() {
     endDate,
   });
 
+  // Get the saved insight for this period
+  const insightQuery = trpc.insights.getByPeriod.useQuery({
+    period: selectedPeriod,
+    periodStart: startDate,
+    periodEnd: endDate,
+  });
+  const insight = insightQuery.data;
+  const narrative = insight?.narrative;
+  // Insights saved before habit analysis existed hold a placeholder string here
+  const habitCorrelations = (Array.isArray(insight?.topHabitsCorrelation) ? insight.topHabitsCorrelation : [])
+    .filter((correlation) => correlation.sameDay.difference !== null);
+
   // Generate insights
   const generateInsightsMutation = trpc.insights.generateInsights.useMutation({
-    onSuccess: () => {
+    onSuccess: (data, variables) => {
+      utils.insights.getByPeriod.setData(variables, data);
       toast.success("Insights generated!");
     },
     onError: (error) => {
@@ -134,7 +149,7 @@ export default function InsightsPage() {
             disabled={generateInsightsMutation.isPending || moods.length === 0}
           >
             <TrendingUp className="w-4 h-4 mr-2" />
-            Generate Insights
+            {insight ? "Refresh Insights" : "Generate Insights"}
           </Button>
         </div>
 
@@ -152,6 +167,72 @@ export default function InsightsPage() {
           </Card>
         ) : (
           <>
+            {/* Narrative */}
+            {narrative && (
+              <Card className="card-elevated mb-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Sparkles className="w-5 h-5" />
+                    Your {selectedPeriod.charAt(0).toUpperCase() + selectedPeriod.slice(1)} in Words
+                  </CardTitle>
+                  <CardDescription>
+                    {insight.narrativeSource === "fallback"
+                      ? "Written from your numbers while the AI summary is unavailable"
+                      : `Generated ${format(insight.generatedAt, "MMM d, h:mm a")}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <p className="leading-relaxed">{narrative.summary}</p>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {narrative.highlights.length > 0 && (
+                      <div>
+                        <h3 className="font-semibold mb-2">Highlights</h3>
+                        <ul className="list-disc pl-5 space-y-1 text-sm">
+                          {narrative.highlights.map((highlight, index) => (
+                            <li key={index}>{highlight}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {narrative.focusAreas.length > 0 && (
+                      <div>
+                        <h3 className="font-semibold mb-2">Focus Areas</h3>
+                        <ul className="list-disc pl-5 space-y-1 text-sm">
+                          {narrative.focusAreas.map((area, index) => (
+                            <li key={index}>{area}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+
+                  {narrative.notableEntries.length > 0 && (
+                    <div>
+                      <h3 className="font-semibold mb-2">Worth Rereading</h3>
+                      <div className="space-y-2">
+                        {narrative.notableEntries.map((entry) => (
+                          <button
+                            key={entry.entryId}
+                            onClick={() => navigate(`/diary/${entry.entryId}`)}
+                            className="flex w-full items-start gap-3 rounded-lg border border-border p-3 text-left transition-colors hover:bg-muted"
+                          >
+                            <BookOpen className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+                            <div>
+                              <p className="text-sm font-medium">
+                                {entry.title} <span className="text-muted-foreground font-normal">· {entry.date}</span>
+                              </p>
+                              <p className="text-xs text-muted-foreground">{entry.reason}</p>
+                            </div>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Key Stats */}
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
               <Card className="card-elevated">
@@ -245,6 +326,62 @@ export default function InsightsPage() {
               </Card>
             </div>
 
+            {/* Habits and Mood */}
+            {habitCorrelations.length > 0 && (
+              <Card className="card-elevated mb-6">
+                <CardHeader>
+                  <CardTitle>Habits and Mood</CardTitle>
+                  <CardDescription>Average mood intensity on days with and without each habit</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <ResponsiveContainer width="100%" height={Math.max(200, habitCorrelations.length * 60)}>
+                    <BarChart
+                      data={habitCorrelations.map((correlation) => ({
+                        name: correlation.name,
+                        with: correlation.sameDay.withHabit,
+                        without: correlation.sameDay.withoutHabit,
+                      }))}
+                      layout="vertical"
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" domain={[0, 10]} />
+                      <YAxis type="category" dataKey="name" width={100} />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="with" name="With habit" fill="#10b981" />
+                      <Bar dataKey="without" name="Without habit" fill="#94a3b8" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                  <ul className="space-y-3">
+                    {habitCorrelations.map((correlation) => {
+                      const { sameDay, nextDay } = correlation;
+                      const difference = sameDay.difference ?? 0;
+                      return (
+                        <li key={correlation.habitId} className="flex items-start justify-between gap-4 text-sm">
+                          <div>
+                            <p className="font-medium">{correlation.name}</p>
+                            <p className="text-muted-foreground">
+                              {difference >= 0 ? "+" : ""}
+                              {difference.toFixed(1)} on days you did it ({sameDay.daysWith} with, {sameDay.daysWithout} without)
+                              {sameDay.effectSize !== null && `, effect size ${sameDay.effectSize.toFixed(2)}`}
+                              {nextDay.difference !== null &&
+                                `; ${nextDay.difference >= 0 ? "+" : ""}${nextDay.difference.toFixed(1)} the day after`}
+                            </p>
+                          </div>
+                          <Badge variant={correlation.confidence === "high" ? "default" : correlation.confidence === "medium" ? "secondary" : "outline"}>
+                            {correlation.confidence} confidence
+                          </Badge>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  <p className="text-xs text-muted-foreground">
+                    These are patterns in your own data, not proof that a habit changes your mood.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Detailed Stats */}
             <Card className="card-elevated">
               <CardHeader>
@@ -4,20 +4,13 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
 import { Textarea } from "@/components/ui/textarea";
+import { moodOptions, type MoodType } from "@/components/MoodChip";
 import { trpc } from "@/lib/trpc";
+import { isNetworkError, sendOrQueue } from "@/lib/offlineQueue";
 import { Heart, ArrowLeft } from "lucide-react";
 import { useLocation } from "wouter";
 import { toast } from "sonner";
-
-type MoodType = "excellent" | "good" | "neutral" | "sad" | "terrible";
-
-const moods: { type: MoodType; emoji: string; label: string; color: string }[] = [
-  { type: "excellent", emoji: "😄", label: "Excellent", color: "bg-emerald-100 hover:bg-emerald-200 dark:bg-emerald-900" },
-  { type: "good", emoji: "🙂", label: "Good", color: "bg-blue-100 hover:bg-blue-200 dark:bg-blue-900" },
-  { type: "neutral", emoji: "😐", label: "Neutral", color: "bg-slate-100 hover:bg-slate-200 dark:bg-slate-800" },
-  { type: "sad", emoji: "😔", label: "Sad", color: "bg-purple-100 hover:bg-purple-200 dark:bg-purple-900" },
-  { type: "terrible", emoji: "😢", label: "Terrible", color: "bg-red-100 hover:bg-red-200 dark:bg-red-900" },
-];
+import { startOfDay } from "date-fns";
 
 export default function MoodPage() {
   const { user } = useAuth();
@@ -28,7 +21,8 @@ export default function MoodPage() {
   const [isLoading, setIsLoading] = useState(false);
 
   // Get today's mood
-  const moodQuery = trpc.mood.getByDate.useQuery({ date: new Date() });
+  // Day-aligned so the key is stable and today's mood can be read from the offline cache
+  const moodQuery = trpc.mood.getByDate.useQuery({ date: startOfDay(new Date()) });
 
   // Record mood mutation
   const recordMoodMutation = trpc.mood.record.useMutation({
@@ -40,6 +34,8 @@ export default function MoodPage() {
       setNotes("");
     },
     onError: (error) => {
+      // Lost connections are queued for later rather than reported
+      if (isNetworkError(error)) return;
       toast.error(error.message || "Failed to record mood");
     },
   });
@@ -61,12 +57,16 @@ export default function MoodPage() {
 
     setIsLoading(true);
     try {
-      await recordMoodMutation.mutateAsync({
+      const input = {
         date: new Date(),
         mood: selectedMood,
         moodIntensity: intensity,
         notes: notes || undefined,
-      });
+      };
+      const { queued } = await sendOrQueue(user?.id, { path: "mood.record", input }, () => recordMoodMutation.mutateAsync(input));
+      if (queued) {
+        toast.success("Mood saved offline. It will sync when you're back online.");
+      }
     } finally {
       setIsLoading(false);
     }
@@ -97,14 +97,14 @@ export default function MoodPage() {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-5 gap-4">
-              {moods.map((mood) => (
+              {moodOptions.map((mood) => (
                 <button
                   key={mood.type}
                   onClick={() => setSelectedMood(mood.type)}
                   className={`flex flex-col items-center justify-center p-4 rounded-lg transition-all ${
                     selectedMood === mood.type
-                      ? `${mood.color} ring-2 ring-accent scale-105`
-                      : `${mood.color}`
+                      ? `${mood.color} ${mood.hoverColor} ring-2 ring-accent scale-105`
+                      : `${mood.color} ${mood.hoverColor}`
                   }`}
                 >
                   <span className="text-4xl mb-2">{mood.emoji}</span>
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { promptCategoryLabels, type PromptCategory } from "@/components/DailyPromptCard";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { PROMPT_CATEGORIES } from "@shared/const";
+import { ArrowLeft, Plus, Sparkles, Trash2 } from "lucide-react";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+
+export default function PromptsPage() {
+  const [, navigate] = useLocation();
+  const [category, setCategory] = useState<PromptCategory | "all">("all");
+  const [newText, setNewText] = useState("");
+  const [newCategory, setNewCategory] = useState<PromptCategory>("reflection");
+
+  // Get prompts
+  const promptsQuery = trpc.prompts.list.useQuery();
+  const prompts = promptsQuery.data || [];
+  const shown = prompts.filter(prompt => category === "all" || prompt.category === category);
+  const library = shown.filter(prompt => prompt.source === "library");
+  const own = shown.filter(prompt => prompt.source !== "library");
+
+  // Create prompt mutation
+  const createMutation = trpc.prompts.create.useMutation({
+    onSuccess: () => {
+      toast.success("Prompt added to your rotation");
+      setNewText("");
+      promptsQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to add prompt");
+    },
+  });
+
+  // Delete prompt mutation
+  const deleteMutation = trpc.prompts.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Prompt removed");
+      promptsQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to remove prompt");
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900 py-8">
+      <div className="container max-w-4xl">
+        {/* Header */}
+        <div className="mb-8 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/diary")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Writing Prompts</h1>
+            <p className="text-muted-foreground">One of these is offered each day, without repeats until you have seen them all</p>
+          </div>
+        </div>
+
+        {/* Add Prompt */}
+        <Card className="card-elevated mb-6">
+          <CardHeader>
+            <CardTitle>Write Your Own</CardTitle>
+            <CardDescription>Your prompts join the daily rotation</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-2">
+              <Input
+                placeholder="What question would you like to be asked?"
+                value={newText}
+                maxLength={500}
+                onChange={(e) => setNewText(e.target.value)}
+              />
+              <Select value={newCategory} onValueChange={(value) => setNewCategory(value as PromptCategory)}>
+                <SelectTrigger className="md:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROMPT_CATEGORIES.map((option) => (
+                    <SelectItem key={option} value={option}>{promptCategoryLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => createMutation.mutate({ category: newCategory, text: newText })}
+                disabled={createMutation.isPending || !newText.trim()}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Category Filter */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          {(["all", ...PROMPT_CATEGORIES] as const).map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={category === option ? "default" : "outline"}
+              onClick={() => setCategory(option)}
+            >
+              {option === "all" ? "All" : promptCategoryLabels[option]}
+            </Button>
+          ))}
+        </div>
+
+        {/* Your Prompts */}
+        {own.length > 0 && (
+          <Card className="card-elevated mb-6">
+            <CardHeader>
+              <CardTitle>Your Prompts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y divide-border">
+                {own.map((prompt) => (
+                  <li key={prompt.id} className="flex items-center justify-between gap-4 py-3">
+                    <div>
+                      <p>{prompt.text}</p>
+                      <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                        {prompt.source === "generated" && <Sparkles className="w-3 h-3" />}
+                        {promptCategoryLabels[prompt.category]}
+                        {prompt.source === "generated" && " · suggested for your mood"}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate({ id: prompt.id })}
+                      disabled={deleteMutation.isPending}
+                      title="Remove from rotation"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Library */}
+        <Card className="card-elevated">
+          <CardHeader>
+            <CardTitle>Library</CardTitle>
+            <CardDescription>{library.length} prompts</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-border">
+              {library.map((prompt) => (
+                <li key={prompt.id} className="py-3">
+                  <p>{prompt.text}</p>
+                  <p className={cn("text-xs text-muted-foreground", category !== "all" && "hidden")}>
+                    {promptCategoryLabels[prompt.category]}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
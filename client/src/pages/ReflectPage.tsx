@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { AIChatBox, type Message } from "@/components/AIChatBox";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, MessageSquarePlus, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+
+const SUGGESTED_QUESTIONS = [
+  "When did I last feel this way?",
+  "What seemed to lift my mood this month?",
+  "Which habits did I keep up last week?",
+  "What have I been writing about lately?",
+];
+
+export default function ReflectPage() {
+  const [, navigate] = useLocation();
+  const utils = trpc.useUtils();
+  const [threadId, setThreadId] = useState<number | null>(null);
+  // The question being answered, shown until the saved exchange comes back
+  const [pending, setPending] = useState<string | null>(null);
+
+  // Get conversations
+  const threadsQuery = trpc.assistant.threads.useQuery();
+  const threads = threadsQuery.data?.threads || [];
+  const available = threadsQuery.data?.available ?? true;
+
+  // Get the open conversation
+  const messagesQuery = trpc.assistant.messages.useQuery(
+    { threadId: threadId ?? 0 },
+    { enabled: threadId !== null }
+  );
+
+  const sendMutation = trpc.assistant.send.useMutation({
+    onSuccess: ({ thread, messages }) => {
+      utils.assistant.messages.setData({ threadId: thread.id }, (old) => [...(old ?? []), ...messages]);
+      setThreadId(thread.id);
+      utils.assistant.threads.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "The assistant could not answer");
+    },
+    onSettled: () => setPending(null),
+  });
+
+  const deleteMutation = trpc.assistant.deleteThread.useMutation({
+    onSuccess: (_, { threadId: deletedId }) => {
+      toast.success("Conversation deleted");
+      if (deletedId === threadId) setThreadId(null);
+      utils.assistant.threads.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete conversation");
+    },
+  });
+
+  const messages: Message[] = [
+    ...(threadId !== null ? messagesQuery.data ?? [] : []).map(({ role, content }) => ({ role, content })),
+    ...(pending ? [{ role: "user" as const, content: pending }] : []),
+  ];
+
+  const handleSend = (content: string) => {
+    setPending(content);
+    sendMutation.mutate({ threadId: threadId ?? undefined, content });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900 py-8">
+      <div className="container max-w-6xl">
+        {/* Header */}
+        <div className="mb-8 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Reflect</h1>
+            <p className="text-muted-foreground">Ask about your own entries, moods and habits</p>
+          </div>
+        </div>
+
+        {!available ? (
+          <Card className="card-elevated">
+            <CardHeader>
+              <CardTitle>Reflection assistant unavailable</CardTitle>
+              <CardDescription>No language model is configured for this diary.</CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-6">
+            {/* Conversations */}
+            <Card className="card-elevated h-fit">
+              <CardHeader>
+                <Button onClick={() => setThreadId(null)} disabled={sendMutation.isPending}>
+                  <MessageSquarePlus className="w-4 h-4 mr-2" />
+                  New Conversation
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {threads.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Your conversations will appear here</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {threads.map((thread) => (
+                      <li
+                        key={thread.id}
+                        className={cn(
+                          "group flex items-center gap-2 rounded-md px-2 py-1.5 cursor-pointer hover:bg-muted",
+                          thread.id === threadId && "bg-muted"
+                        )}
+                        onClick={() => !sendMutation.isPending && setThreadId(thread.id)}
+                      >
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-sm">{thread.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(thread.updatedAt, { addSuffix: true })}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="opacity-0 group-hover:opacity-100"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteMutation.mutate({ threadId: thread.id });
+                          }}
+                          disabled={deleteMutation.isPending}
+                          title="Delete conversation"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Chat */}
+            <AIChatBox
+              messages={messages}
+              onSendMessage={handleSend}
+              isLoading={sendMutation.isPending}
+              placeholder="Ask about your journal..."
+              height="70vh"
+              emptyStateMessage="Answers come from what you have written and tracked"
+              suggestedPrompts={SUGGESTED_QUESTIONS}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MoodChip } from "@/components/MoodChip";
+import { toPreviewText } from "@/lib/markdown";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, GitMerge, Pencil } from "lucide-react";
+import { useLocation, useRoute } from "wouter";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+const sigils = { tag: "#", person: "@" } as const;
+
+export default function TagsPage() {
+  const [, navigate] = useLocation();
+  const [, params] = useRoute("/tags/:id");
+  const selectedId = params?.id ? Number(params.id) : null;
+  const [renameValue, setRenameValue] = useState("");
+  const [mergeTargetId, setMergeTargetId] = useState("");
+
+  // Get tags
+  const tagsQuery = trpc.tags.list.useQuery();
+  const tags = tagsQuery.data || [];
+  const selectedTag = tags.find(tag => tag.id === selectedId);
+  const maxCount = Math.max(1, ...tags.map(tag => tag.entryCount));
+
+  // Get the selected tag's entries
+  const timelineQuery = trpc.diary.listByTag.useInfiniteQuery(
+    { tagId: selectedId ?? 0, limit: 20 },
+    { enabled: selectedId !== null, getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+  const timelineEntries = timelineQuery.data?.pages.flatMap(page => page.items) ?? [];
+
+  useEffect(() => {
+    setRenameValue(selectedTag?.name ?? "");
+    setMergeTargetId("");
+  }, [selectedTag?.id, selectedTag?.name]);
+
+  // Rename tag mutation
+  const renameMutation = trpc.tags.rename.useMutation({
+    onSuccess: (tag) => {
+      toast.success(`Renamed to ${sigils[tag.kind]}${tag.name}`);
+      tagsQuery.refetch();
+      timelineQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to rename tag");
+    },
+  });
+
+  // Merge tag mutation
+  const mergeMutation = trpc.tags.merge.useMutation({
+    onSuccess: (target) => {
+      toast.success(`Merged into ${sigils[target.kind]}${target.name}`);
+      tagsQuery.refetch();
+      navigate(`/tags/${target.id}`);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to merge tags");
+    },
+  });
+
+  // Scale font size with usage, on a log curve so one busy tag does not dwarf the rest
+  const tagSize = (count: number) => {
+    const weight = Math.log(count + 1) / Math.log(maxCount + 1);
+    return `${0.85 + weight * 0.9}rem`;
+  };
+
+  const renderCloud = (kind: keyof typeof sigils) => {
+    const group = tags.filter(tag => tag.kind === kind);
+    if (group.length === 0) {
+      return <p className="text-sm text-muted-foreground">None yet.</p>;
+    }
+    return (
+      <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+        {group.map((tag) => (
+          <button
+            key={tag.id}
+            onClick={() => navigate(`/tags/${tag.id}`)}
+            style={{ fontSize: tagSize(tag.entryCount) }}
+            className={cn(
+              "rounded px-1 transition-colors hover:text-accent",
+              tag.id === selectedId ? "text-accent font-semibold" : "text-foreground"
+            )}
+            title={`${tag.entryCount} ${tag.entryCount === 1 ? "entry" : "entries"}`}
+          >
+            {sigils[kind]}{tag.name}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900 py-8">
+      <div className="container max-w-4xl">
+        {/* Header */}
+        <div className="mb-8 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/diary")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Tags & People</h1>
+            <p className="text-muted-foreground">Write #topics and @names in your entries to see them here</p>
+          </div>
+        </div>
+
+        {/* Tag Cloud */}
+        <Card className="card-elevated mb-6">
+          <CardHeader>
+            <CardTitle>Tag Cloud</CardTitle>
+            <CardDescription>Larger names appear in more entries</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div>
+              <h3 className="text-sm font-semibold text-muted-foreground mb-2">Topics</h3>
+              {renderCloud("tag")}
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold text-muted-foreground mb-2">People</h3>
+              {renderCloud("person")}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Tag Timeline */}
+        {selectedTag && (
+          <Card className="card-elevated">
+            <CardHeader>
+              <CardTitle>{sigils[selectedTag.kind]}{selectedTag.name}</CardTitle>
+              <CardDescription>
+                {selectedTag.entryCount} {selectedTag.entryCount === 1 ? "entry" : "entries"}, newest first
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {/* Manage */}
+              <div className="flex flex-col md:flex-row gap-2">
+                <div className="flex gap-2 flex-1">
+                  <Input value={renameValue} onChange={(e) => setRenameValue(e.target.value)} placeholder="New name" />
+                  <Button
+                    variant="outline"
+                    onClick={() => renameMutation.mutate({ id: selectedTag.id, name: renameValue })}
+                    disabled={renameMutation.isPending || !renameValue.trim() || renameValue === selectedTag.name}
+                  >
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Rename
+                  </Button>
+                </div>
+                <div className="flex gap-2 flex-1">
+                  <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Merge into..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tags
+                        .filter(tag => tag.kind === selectedTag.kind && tag.id !== selectedTag.id)
+                        .map((tag) => (
+                          <SelectItem key={tag.id} value={String(tag.id)}>
+                            {sigils[tag.kind]}{tag.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={() => mergeMutation.mutate({ sourceId: selectedTag.id, targetId: Number(mergeTargetId) })}
+                    disabled={mergeMutation.isPending || !mergeTargetId}
+                  >
+                    <GitMerge className="w-4 h-4 mr-2" />
+                    Merge
+                  </Button>
+                </div>
+              </div>
+
+              {/* Timeline */}
+              <ol className="relative border-l border-border ml-2 space-y-4">
+                {timelineEntries.map((entry) => (
+                  <li key={entry.id} className="ml-4">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-accent" />
+                    <button
+                      onClick={() => navigate(`/diary/${entry.id}`)}
+                      className="w-full text-left rounded-lg p-2 transition-colors hover:bg-muted"
+                    >
+                      <div className="flex items-center gap-2">
+                        <time className="text-xs font-semibold text-muted-foreground">{format(new Date(entry.date), "MMMM d, yyyy")}</time>
+                        <MoodChip mood={entry.mood} intensity={entry.moodIntensity} />
+                      </div>
+                      <p className="font-medium truncate">{entry.title || "Untitled entry"}</p>
+                      {entry.content && <p className="text-sm text-muted-foreground line-clamp-2">{toPreviewText(entry.content, entry.contentFormat)}</p>}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+              {timelineQuery.hasNextPage && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => timelineQuery.fetchNextPage()}
+                  disabled={timelineQuery.isFetchingNextPage}
+                >
+                  {timelineQuery.isFetchingNextPage ? "Loading..." : "Load Older Entries"}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { DIARY_TRASH_RETENTION_DAYS } from "@shared/const";
+import { ArrowLeft, RotateCcw, Trash2 } from "lucide-react";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+
+export default function TrashPage() {
+  const [, navigate] = useLocation();
+
+  // Get trashed entries
+  const trashQuery = trpc.diary.listTrash.useQuery();
+
+  // Restore entry mutation
+  const restoreMutation = trpc.diary.restore.useMutation({
+    onSuccess: () => {
+      toast.success("Entry restored");
+      trashQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to restore entry");
+    },
+  });
+
+  // Permanently delete entry mutation
+  const purgeMutation = trpc.diary.purge.useMutation({
+    onSuccess: () => {
+      toast.success("Entry permanently deleted");
+      trashQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete entry");
+    },
+  });
+
+  const daysRemaining = (deletedAt: Date) => {
+    const purgeDate = addDays(new Date(deletedAt), DIARY_TRASH_RETENTION_DAYS);
+    return Math.max(0, differenceInCalendarDays(purgeDate, new Date()));
+  };
+
+  const entries = trashQuery.data || [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900 py-8">
+      <div className="container max-w-3xl">
+        {/* Header */}
+        <div className="mb-8 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/diary")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Trash</h1>
+            <p className="text-muted-foreground">
+              Deleted entries are kept for {DIARY_TRASH_RETENTION_DAYS} days before being removed permanently
+            </p>
+          </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <Card className="card-elevated">
+            <CardContent className="pt-12 pb-12 text-center">
+              <p className="text-muted-foreground">The trash is empty.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="card-elevated">
+            <CardHeader>
+              <CardTitle>Deleted Entries</CardTitle>
+              <CardDescription>Restore an entry or delete it forever</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {entries.map((entry) => (
+                <div key={entry.id} className="flex items-start justify-between gap-4 p-3 rounded-lg border border-border">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{entry.title || "Untitled entry"}</p>
+                    <p className="text-xs text-muted-foreground">{format(new Date(entry.date), "EEEE, MMMM d, yyyy")}</p>
+                    {entry.deletedAt && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Deleted forever in {daysRemaining(entry.deletedAt)} days
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreMutation.mutate({ id: entry.id })}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => purgeMutation.mutate({ id: entry.id })}
+                      disabled={purgeMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete Forever
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+ALTER TABLE `diary_entries` ADD `deletedAt` timestamp;--> statement-breakpoint
+ALTER TABLE `media_files` ADD `deletedAt` timestamp;
\ No newline at end of file
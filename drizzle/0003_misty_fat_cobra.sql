@@ -0,0 +1,9 @@
+CREATE TABLE `diary_entry_revisions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`diaryEntryId` int NOT NULL,
+	`userId` int NOT NULL,
+	`title` varchar(255),
+	`content` longtext,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `diary_entry_revisions_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,13 @@
+CREATE TABLE `media_variants` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`mediaFileId` int NOT NULL,
+	`kind` enum('thumbnail','poster') NOT NULL,
+	`width` int NOT NULL,
+	`height` int NOT NULL,
+	`fileKey` varchar(512) NOT NULL,
+	`fileUrl` varchar(1024) NOT NULL,
+	`mimeType` varchar(100) NOT NULL,
+	`fileSize` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `media_variants_id` PRIMARY KEY(`id`)
+);
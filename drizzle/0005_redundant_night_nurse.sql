@@ -0,0 +1,6 @@
+ALTER TABLE `media_files` ADD `width` int;--> statement-breakpoint
+ALTER TABLE `media_files` ADD `height` int;--> statement-breakpoint
+ALTER TABLE `media_files` ADD `takenAt` timestamp;--> statement-breakpoint
+ALTER TABLE `media_files` ADD `latitude` double;--> statement-breakpoint
+ALTER TABLE `media_files` ADD `longitude` double;--> statement-breakpoint
+ALTER TABLE `media_files` ADD `camera` varchar(255);
\ No newline at end of file
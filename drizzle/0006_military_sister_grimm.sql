@@ -0,0 +1 @@
+CREATE INDEX `diary_entries_userId_date_idx` ON `diary_entries` (`userId`,`date`);
\ No newline at end of file
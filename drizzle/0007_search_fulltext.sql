@@ -0,0 +1,4 @@
+-- FULLTEXT indexes are not expressible in the drizzle schema, so they live in this custom migration
+CREATE FULLTEXT INDEX `diary_entries_title_content_ft` ON `diary_entries` (`title`,`content`);--> statement-breakpoint
+CREATE FULLTEXT INDEX `mood_history_notes_ft` ON `mood_history` (`notes`);--> statement-breakpoint
+CREATE FULLTEXT INDEX `habit_completions_notes_ft` ON `habit_completions` (`notes`);
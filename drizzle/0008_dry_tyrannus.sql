@@ -0,0 +1,19 @@
+CREATE TABLE `entry_tags` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`diaryEntryId` int NOT NULL,
+	`tagId` int NOT NULL,
+	CONSTRAINT `entry_tags_id` PRIMARY KEY(`id`),
+	CONSTRAINT `entry_tags_diaryEntryId_tagId_idx` UNIQUE(`diaryEntryId`,`tagId`)
+);
+--> statement-breakpoint
+CREATE TABLE `tags` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`kind` enum('tag','person') NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `tags_id` PRIMARY KEY(`id`),
+	CONSTRAINT `tags_userId_kind_name_idx` UNIQUE(`userId`,`kind`,`name`)
+);
+--> statement-breakpoint
+CREATE INDEX `entry_tags_tagId_idx` ON `entry_tags` (`tagId`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `diary_entries` ADD `contentFormat` enum('plain','markdown') DEFAULT 'plain' NOT NULL;--> statement-breakpoint
+ALTER TABLE `diary_entry_revisions` ADD `contentFormat` enum('plain','markdown') DEFAULT 'plain' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `diary_drafts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`diaryEntryId` int,
+	`title` varchar(255),
+	`content` longtext,
+	`contentFormat` enum('plain','markdown') NOT NULL DEFAULT 'markdown',
+	`date` timestamp,
+	`mood` enum('excellent','good','neutral','sad','terrible'),
+	`moodIntensity` int,
+	`mediaIds` json,
+	`entryUpdatedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `diary_drafts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `diary_drafts_userId_diaryEntryId_idx` ON `diary_drafts` (`userId`,`diaryEntryId`);
\ No newline at end of file
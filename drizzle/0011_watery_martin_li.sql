@@ -0,0 +1,2 @@
+ALTER TABLE `diary_entries` ADD `clientId` varchar(64);--> statement-breakpoint
+ALTER TABLE `diary_entries` ADD CONSTRAINT `diary_entries_userId_clientId_idx` UNIQUE(`userId`,`clientId`);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `daily_prompts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`promptId` int NOT NULL,
+	`date` timestamp NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `daily_prompts_id` PRIMARY KEY(`id`),
+	CONSTRAINT `daily_prompts_userId_date_idx` UNIQUE(`userId`,`date`)
+);
+--> statement-breakpoint
+CREATE TABLE `writing_prompts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int,
+	`category` enum('gratitude','reflection','growth','relationships','mindfulness','creativity','coping') NOT NULL,
+	`text` varchar(500) NOT NULL,
+	`source` enum('library','user','generated') NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `writing_prompts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `daily_prompts_promptId_idx` ON `daily_prompts` (`promptId`);--> statement-breakpoint
+CREATE INDEX `writing_prompts_userId_idx` ON `writing_prompts` (`userId`);
\ No newline at end of file
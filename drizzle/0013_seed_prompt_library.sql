@@ -0,0 +1,44 @@
+-- The shared prompt library; userId stays null so every user draws from it
+INSERT INTO `writing_prompts` (`category`, `text`, `source`) VALUES
+('gratitude', 'What is one small thing from today you would miss if it were gone?', 'library'),
+('gratitude', 'Who made your day a little easier recently, and how?', 'library'),
+('gratitude', 'Describe a place that makes you feel at home.', 'library'),
+('gratitude', 'What is something your body let you do today that you are thankful for?', 'library'),
+('gratitude', 'Which ordinary object in your life quietly makes things better?', 'library'),
+('gratitude', 'What went better than you expected this week?', 'library'),
+('reflection', 'What took up most of your attention today, and was it worth it?', 'library'),
+('reflection', 'Describe a moment today you would like to remember in a year.', 'library'),
+('reflection', 'What surprised you about how you reacted to something recently?', 'library'),
+('reflection', 'If today had a title, what would it be and why?', 'library'),
+('reflection', 'What are you still thinking about from yesterday?', 'library'),
+('reflection', 'What did you say yes to lately that you wish you had said no to?', 'library'),
+('growth', 'What is something you understand now that you did not a year ago?', 'library'),
+('growth', 'Which habit would you most like to build, and what is the first tiny step?', 'library'),
+('growth', 'Describe a mistake you made recently and what it taught you.', 'library'),
+('growth', 'What would you attempt if you knew nobody would judge the result?', 'library'),
+('growth', 'What does a good week look like for you right now?', 'library'),
+('growth', 'Which skill are you slowly getting better at?', 'library'),
+('relationships', 'Who do you want to spend more time with, and what is stopping you?', 'library'),
+('relationships', 'Describe a conversation that stayed with you.', 'library'),
+('relationships', 'What is something you have never told someone close to you, but would like to?', 'library'),
+('relationships', 'How have you shown care for someone this week?', 'library'),
+('relationships', 'Who has shaped the way you see the world?', 'library'),
+('relationships', 'What do you appreciate about the people you live or work with?', 'library'),
+('mindfulness', 'What can you hear, see and feel right now? Describe it in detail.', 'library'),
+('mindfulness', 'Where in your body are you holding tension today?', 'library'),
+('mindfulness', 'What did you eat today, and how did it taste?', 'library'),
+('mindfulness', 'Describe the last time you felt completely present.', 'library'),
+('mindfulness', 'What is one thing you can let go of before tomorrow?', 'library'),
+('mindfulness', 'How did the weather shape your mood today?', 'library'),
+('creativity', 'Write a letter to yourself ten years from now.', 'library'),
+('creativity', 'Describe today as if it were a scene in a film.', 'library'),
+('creativity', 'If your current mood were a color, which would it be and why?', 'library'),
+('creativity', 'Invent a small ritual that would make your mornings better.', 'library'),
+('creativity', 'Write about a memory using only your senses: sounds, smells, textures.', 'library'),
+('creativity', 'What would your ideal ordinary day look like, hour by hour?', 'library'),
+('coping', 'What is weighing on you right now? Write it down without judging it.', 'library'),
+('coping', 'What would you say to a friend who felt the way you do today?', 'library'),
+('coping', 'Which parts of this situation are in your control, and which are not?', 'library'),
+('coping', 'What has helped you get through a hard day before?', 'library'),
+('coping', 'Name one thing you can do in the next hour to take care of yourself.', 'library'),
+('coping', 'What would make tomorrow a little lighter than today?', 'library');
@@ -0,0 +1,14 @@
+CREATE TABLE `audio_transcripts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`mediaFileId` int NOT NULL,
+	`userId` int NOT NULL,
+	`language` varchar(32),
+	`duration` double,
+	`text` longtext NOT NULL,
+	`segments` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `audio_transcripts_id` PRIMARY KEY(`id`),
+	CONSTRAINT `audio_transcripts_mediaFileId_unique` UNIQUE(`mediaFileId`)
+);
+--> statement-breakpoint
+ALTER TABLE `media_files` MODIFY COLUMN `fileType` enum('image','video','audio') NOT NULL;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `chat_messages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`threadId` int NOT NULL,
+	`userId` int NOT NULL,
+	`role` enum('user','assistant') NOT NULL,
+	`content` longtext NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `chat_messages_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `chat_threads` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `chat_threads_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `chat_messages_threadId_idx` ON `chat_messages` (`threadId`);--> statement-breakpoint
+CREATE INDEX `chat_threads_userId_updatedAt_idx` ON `chat_threads` (`userId`,`updatedAt`);
\ No newline at end of file
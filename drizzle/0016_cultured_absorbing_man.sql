@@ -0,0 +1,3 @@
+ALTER TABLE `mood_insights` ADD `narrative` json;--> statement-breakpoint
+ALTER TABLE `mood_insights` ADD `narrativeSource` enum('llm','fallback');--> statement-breakpoint
+ALTER TABLE `mood_insights` ADD `dataHash` varchar(64);
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX `media_variants_mediaFileId_idx` ON `media_variants` (`mediaFileId`);
\ No newline at end of file
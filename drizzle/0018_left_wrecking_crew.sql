@@ -0,0 +1,8 @@
+DROP INDEX `diary_drafts_userId_diaryEntryId_idx` ON `diary_drafts`;--> statement-breakpoint
+ALTER TABLE `diary_drafts` ADD `entryVersion` int;--> statement-breakpoint
+ALTER TABLE `diary_drafts` ADD `version` int DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `diary_drafts` ADD `entryKey` int GENERATED ALWAYS AS (coalesce(`diaryEntryId`, 0)) STORED NOT NULL;--> statement-breakpoint
+ALTER TABLE `diary_entries` ADD `version` int DEFAULT 1 NOT NULL;--> statement-breakpoint
+-- Keep only the newest draft per user and entry before making the pair unique
+DELETE older FROM `diary_drafts` older JOIN `diary_drafts` newer ON older.`userId` = newer.`userId` AND older.`entryKey` = newer.`entryKey` AND older.`id` < newer.`id`;--> statement-breakpoint
+ALTER TABLE `diary_drafts` ADD CONSTRAINT `diary_drafts_userId_entryKey_idx` UNIQUE(`userId`,`entryKey`);
\ No newline at end of file
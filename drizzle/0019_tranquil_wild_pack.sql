@@ -0,0 +1 @@
+ALTER TABLE `diary_drafts` DROP COLUMN `entryUpdatedAt`;
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, decimal, longtext, json } from "drizzle-orm/mysql-core";
+import { sql } from "drizzle-orm";
+import { index, int, mysqlEnum, mysqlTable, uniqueIndex, text, timestamp, varchar, decimal, double, longtext, json } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -28,18 +29,140 @@ export const diaryEntries = mysqlTable("diary_entries", {
   userId: int("userId").notNull(),
   title: varchar("title", { length: 255 }),
   content: longtext("content"),
+  // How content is rendered; entries written before the Markdown editor stay "plain"
+  contentFormat: mysqlEnum("contentFormat", ["plain", "markdown"]).default("plain").notNull(),
   mood: mysqlEnum("mood", ["excellent", "good", "neutral", "sad", "terrible"]),
   moodIntensity: int("moodIntensity"), // 1-10 scale for mood intensity
   date: timestamp("date").notNull(), // The date this entry is for
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
-});
+  deletedAt: timestamp("deletedAt"), // Set when moved to trash, null while active
+  clientId: varchar("clientId", { length: 64 }), // Set by the client so a replayed offline create is not saved twice
+  version: int("version").default(1).notNull(), // Bumped on every save; the editor sends back the one it loaded
+}, (table) => [
+  // Serves the per-user, date-ordered listing and its cursor pagination
+  index("diary_entries_userId_date_idx").on(table.userId, table.date),
+  uniqueIndex("diary_entries_userId_clientId_idx").on(table.userId, table.clientId),
+  // FULLTEXT (title, content) for search is created in drizzle/0007_search_fulltext.sql
+]);
 
 export type DiaryEntry = typeof diaryEntries.$inferSelect;
 export type InsertDiaryEntry = typeof diaryEntries.$inferInsert;
 
 /**
- * Media files - stores references to photos and videos
+ * Diary entry revisions - snapshots of an entry's text taken before each update
+ * Used to browse history and roll back accidental overwrites
+ */
+export const diaryEntryRevisions = mysqlTable("diary_entry_revisions", {
+  id: int("id").autoincrement().primaryKey(),
+  diaryEntryId: int("diaryEntryId").notNull(),
+  userId: int("userId").notNull(),
+  title: varchar("title", { length: 255 }),
+  content: longtext("content"),
+  contentFormat: mysqlEnum("contentFormat", ["plain", "markdown"]).default("plain").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(), // When this version was replaced
+});
+
+export type DiaryEntryRevision = typeof diaryEntryRevisions.$inferSelect;
+export type InsertDiaryEntryRevision = typeof diaryEntryRevisions.$inferInsert;
+
+/**
+ * Diary drafts - autosaved, unpublished work on a new entry (diaryEntryId null)
+ * or on edits to an existing one. At most one draft per user and entry.
+ */
+export const diaryDrafts = mysqlTable("diary_drafts", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  diaryEntryId: int("diaryEntryId"),
+  title: varchar("title", { length: 255 }),
+  content: longtext("content"),
+  contentFormat: mysqlEnum("contentFormat", ["plain", "markdown"]).default("markdown").notNull(),
+  date: timestamp("date"),
+  mood: mysqlEnum("mood", ["excellent", "good", "neutral", "sad", "terrible"]),
+  moodIntensity: int("moodIntensity"),
+  mediaIds: json("mediaIds").$type<number[]>(), // Uploads waiting to be attached when a new entry is published
+  entryVersion: int("entryVersion"), // Version of the entry the draft was started from
+  version: int("version").default(1).notNull(), // Bumped on every save; devices send back the one they last saw
+  // diaryEntryId with 0 for a new entry's draft, since a unique index lets NULLs repeat
+  entryKey: int("entryKey").generatedAlwaysAs(sql`coalesce(\`diaryEntryId\`, 0)`, { mode: "stored" }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("diary_drafts_userId_entryKey_idx").on(table.userId, table.entryKey),
+]);
+
+export type DiaryDraft = typeof diaryDrafts.$inferSelect;
+export type InsertDiaryDraft = typeof diaryDrafts.$inferInsert;
+
+/**
+ * Tags - #topics and @people parsed from entry content, one row per user and name
+ */
+export const tags = mysqlTable("tags", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  kind: mysqlEnum("kind", ["tag", "person"]).notNull(),
+  name: varchar("name", { length: 100 }).notNull(), // Lowercase, without the leading # or @
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("tags_userId_kind_name_idx").on(table.userId, table.kind, table.name),
+]);
+
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = typeof tags.$inferInsert;
+
+/**
+ * Entry tags - links diary entries to the tags found in their content
+ */
+export const entryTags = mysqlTable("entry_tags", {
+  id: int("id").autoincrement().primaryKey(),
+  diaryEntryId: int("diaryEntryId").notNull(),
+  tagId: int("tagId").notNull(),
+}, (table) => [
+  uniqueIndex("entry_tags_diaryEntryId_tagId_idx").on(table.diaryEntryId, table.tagId),
+  index("entry_tags_tagId_idx").on(table.tagId),
+]);
+
+export type EntryTag = typeof entryTags.$inferSelect;
+export type InsertEntryTag = typeof entryTags.$inferInsert;
+
+/**
+ * Writing prompts - the shared library (userId null, seeded in drizzle/0013_seed_prompt_library.sql)
+ * plus prompts each user writes or has generated for them
+ */
+export const writingPrompts = mysqlTable("writing_prompts", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId"), // Null for library prompts, which every user shares
+  category: mysqlEnum("category", ["gratitude", "reflection", "growth", "relationships", "mindfulness", "creativity", "coping"]).notNull(),
+  text: varchar("text", { length: 500 }).notNull(),
+  source: mysqlEnum("source", ["library", "user", "generated"]).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("writing_prompts_userId_idx").on(table.userId),
+]);
+
+export type WritingPrompt = typeof writingPrompts.$inferSelect;
+export type InsertWritingPrompt = typeof writingPrompts.$inferInsert;
+
+/**
+ * Daily prompts - the prompt each user was given on each day, which keeps a day's
+ * prompt fixed once chosen and lets rotation skip recent ones
+ */
+export const dailyPrompts = mysqlTable("daily_prompts", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  promptId: int("promptId").notNull(),
+  date: timestamp("date").notNull(), // Start of the day the prompt was given for
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("daily_prompts_userId_date_idx").on(table.userId, table.date),
+  index("daily_prompts_promptId_idx").on(table.promptId),
+]);
+
+export type DailyPrompt = typeof dailyPrompts.$inferSelect;
+export type InsertDailyPrompt = typeof dailyPrompts.$inferInsert;
+
+/**
+ * Media files - stores references to photos, videos and voice notes
  * Actual files are stored in S3, this table stores metadata
  */
 export const mediaFiles = mysqlTable("media_files", {
@@ -48,16 +171,66 @@ export const mediaFiles = mysqlTable("media_files", {
   diaryEntryId: int("diaryEntryId"),
   fileKey: varchar("fileKey", { length: 512 }).notNull(), // S3 key
   fileUrl: varchar("fileUrl", { length: 1024 }).notNull(), // S3 public URL
-  fileType: mysqlEnum("fileType", ["image", "video"]).notNull(),
+  fileType: mysqlEnum("fileType", ["image", "video", "audio"]).notNull(),
   mimeType: varchar("mimeType", { length: 100 }),
   fileName: varchar("fileName", { length: 255 }),
   fileSize: int("fileSize"), // in bytes
+  // Read from EXIF on upload; null when the file carries no such metadata
+  width: int("width"),
+  height: int("height"),
+  takenAt: timestamp("takenAt"),
+  latitude: double("latitude"),
+  longitude: double("longitude"),
+  camera: varchar("camera", { length: 255 }),
   uploadedAt: timestamp("uploadedAt").defaultNow().notNull(),
+  deletedAt: timestamp("deletedAt"), // Mirrors the owning entry's trash state
 });
 
 export type MediaFile = typeof mediaFiles.$inferSelect;
 export type InsertMediaFile = typeof mediaFiles.$inferInsert;
 
+/**
+ * Media variants - derived renditions of a media file (resized WebP thumbnails,
+ * video poster frames) so galleries never have to load the original
+ */
+export const mediaVariants = mysqlTable("media_variants", {
+  id: int("id").autoincrement().primaryKey(),
+  mediaFileId: int("mediaFileId").notNull(),
+  kind: mysqlEnum("kind", ["thumbnail", "poster"]).notNull(),
+  width: int("width").notNull(),
+  height: int("height").notNull(),
+  fileKey: varchar("fileKey", { length: 512 }).notNull(),
+  fileUrl: varchar("fileUrl", { length: 1024 }).notNull(),
+  mimeType: varchar("mimeType", { length: 100 }).notNull(),
+  fileSize: int("fileSize"), // in bytes
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("media_variants_mediaFileId_idx").on(table.mediaFileId),
+]);
+
+export type MediaVariant = typeof mediaVariants.$inferSelect;
+export type InsertMediaVariant = typeof mediaVariants.$inferInsert;
+
+/**
+ * Audio transcripts - the text of a voice note, with timestamped segments so
+ * playback can follow along. One per audio media file.
+ */
+export const audioTranscripts = mysqlTable("audio_transcripts", {
+  id: int("id").autoincrement().primaryKey(),
+  mediaFileId: int("mediaFileId").notNull().unique(),
+  userId: int("userId").notNull(),
+  language: varchar("language", { length: 32 }),
+  duration: double("duration"), // in seconds
+  text: longtext("text").notNull(),
+  segments: json("segments").$type<TranscriptSegment[]>().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+// start and end are seconds from the beginning of the recording
+export type TranscriptSegment = { start: number; end: number; text: string };
+export type AudioTranscript = typeof audioTranscripts.$inferSelect;
+export type InsertAudioTranscript = typeof audioTranscripts.$inferInsert;
+
 /**
  * Habits - user-defined habits to track daily
  */
@@ -85,7 +258,7 @@ export const habitCompletions = mysqlTable("habit_completions", {
   userId: int("userId").notNull(),
   date: timestamp("date").notNull(), // The date this habit was completed
   completed: int("completed").default(0).notNull(), // 1 = completed, 0 = not completed
-  notes: text("notes"),
+  notes: text("notes"), // FULLTEXT-indexed for search (drizzle/0007_search_fulltext.sql)
   completedAt: timestamp("completedAt"), // When the habit was marked complete
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
@@ -103,7 +276,7 @@ export const moodHistory = mysqlTable("mood_history", {
   date: timestamp("date").notNull(), // The date of this mood entry
   mood: mysqlEnum("mood", ["excellent", "good", "neutral", "sad", "terrible"]).notNull(),
   moodIntensity: int("moodIntensity").notNull(), // 1-10 scale
-  notes: text("notes"),
+  notes: text("notes"), // FULLTEXT-indexed for search (drizzle/0007_search_fulltext.sql)
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -124,11 +297,73 @@ export const moodInsights = mysqlTable("mood_insights", {
   averageMoodScore: decimal("averageMoodScore", { precision: 3, scale: 2 }),
   dominantMood: varchar("dominantMood", { length: 50 }),
   moodDistribution: json("moodDistribution"), // JSON object with mood counts
-  topHabitsCorrelation: json("topHabitsCorrelation"), // JSON array of habits correlated with positive moods
+  topHabitsCorrelation: json("topHabitsCorrelation").$type<HabitCorrelation[]>(), // Per-habit mood effects, strongest first
   insights: longtext("insights"), // AI-generated or calculated insights
+  narrative: json("narrative").$type<InsightNarrative>(), // Structured summary shown on the insights page
+  narrativeSource: mysqlEnum("narrativeSource", ["llm", "fallback"]),
+  dataHash: varchar("dataHash", { length: 64 }), // Hash of the period's data, so unchanged periods are not regenerated
   generatedAt: timestamp("generatedAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
 
+// Entries are referenced by id; date and title are copied in so the narrative reads without a join
+export type InsightNarrative = {
+  summary: string;
+  highlights: string[];
+  focusAreas: string[];
+  notableEntries: { entryId: number; date: string; title: string; reason: string }[];
+};
+// Mood intensity on days with and without a habit; null where either side has no days
+export type HabitMoodEffect = {
+  withHabit: number | null;
+  withoutHabit: number | null;
+  daysWith: number;
+  daysWithout: number;
+  difference: number | null;
+  effectSize: number | null; // Cohen's d
+};
+export type HabitCorrelation = {
+  habitId: number;
+  name: string;
+  color: string | null;
+  sameDay: HabitMoodEffect; // Habit done today, mood today
+  nextDay: HabitMoodEffect; // Habit done yesterday, mood today
+  confidence: "low" | "medium" | "high"; // From the smaller side of the same-day comparison
+};
 export type MoodInsight = typeof moodInsights.$inferSelect;
 export type InsertMoodInsight = typeof moodInsights.$inferInsert;
+
+/**
+ * Chat threads - conversations with the reflection assistant
+ */
+export const chatThreads = mysqlTable("chat_threads", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  title: varchar("title", { length: 255 }).notNull(), // Taken from the first question
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(), // Bumped by every reply
+}, (table) => [
+  index("chat_threads_userId_updatedAt_idx").on(table.userId, table.updatedAt),
+]);
+
+export type ChatThread = typeof chatThreads.$inferSelect;
+export type InsertChatThread = typeof chatThreads.$inferInsert;
+
+/**
+ * Chat messages - the user's questions and the assistant's answers. Tool results
+ * are not kept; the assistant queries the journal again on later turns, so
+ * purged entries do not live on in old conversations.
+ */
+export const chatMessages = mysqlTable("chat_messages", {
+  id: int("id").autoincrement().primaryKey(),
+  threadId: int("threadId").notNull(),
+  userId: int("userId").notNull(),
+  role: mysqlEnum("role", ["user", "assistant"]).notNull(),
+  content: longtext("content").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("chat_messages_threadId_idx").on(table.threadId),
+]);
+
+export type ChatMessage = typeof chatMessages.$inferSelect;
+export type InsertChatMessage = typeof chatMessages.$inferInsert;
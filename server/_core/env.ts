@@ -7,4 +7,26 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  // Storage backend: "forge" | "local" | "s3"; defaults to forge when its credentials are present
+  storageDriver: process.env.STORAGE_DRIVER ?? "",
+  storageLocalDir: process.env.STORAGE_LOCAL_DIR ?? "uploads",
+  s3Bucket: process.env.S3_BUCKET ?? "",
+  s3Region: process.env.S3_REGION ?? "us-east-1",
+  s3Endpoint: process.env.S3_ENDPOINT ?? "",
+  s3AccessKeyId: process.env.S3_ACCESS_KEY_ID ?? "",
+  s3SecretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? "",
+  s3ForcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+  s3PublicUrl: process.env.S3_PUBLIC_URL ?? "",
+  // Unattached uploads and untracked objects older than this are swept
+  mediaOrphanRetentionDays: Number(process.env.MEDIA_ORPHAN_RETENTION_DAYS ?? 7),
+  // Speech-to-text backend: "forge" | "whisper" | "fake"; defaults to forge when its credentials are present
+  transcriptionProvider: process.env.TRANSCRIPTION_PROVIDER ?? "",
+  // Root of a self-hosted server with an OpenAI-compatible /v1/audio/transcriptions endpoint
+  whisperApiUrl: process.env.WHISPER_API_URL ?? "",
+  whisperApiKey: process.env.WHISPER_API_KEY ?? "",
+  whisperModel: process.env.WHISPER_MODEL ?? "whisper-1",
+  // Recordings over the provider's upload limit are split; 0 keeps the provider's default
+  transcriptionMaxBytes: Number(process.env.TRANSCRIPTION_MAX_BYTES ?? 0),
+  // Used to extract video poster frames and split long recordings; both are skipped when it is not installed
+  ffmpegPath: process.env.FFMPEG_PATH ?? "ffmpeg",
 };
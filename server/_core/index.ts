@@ -4,6 +4,9 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerMediaUploadRoutes } from "../mediaUpload";
+import { registerStorageRoutes } from "../storage";
+import { startMediaCleanupSchedule } from "../mediaCleanup";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
@@ -30,11 +33,15 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 async function startServer() {
   const app = express();
   const server = createServer(app);
-  // Configure body parser with larger size limit for file uploads
-  app.use(express.json({ limit: "50mb" }));
-  app.use(express.urlencoded({ limit: "50mb", extended: true }));
+  // Body parser limit covers long diary entries; media is streamed separately
+  app.use(express.json({ limit: "10mb" }));
+  app.use(express.urlencoded({ limit: "10mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Streaming media uploads under /api/media/upload
+  registerMediaUploadRoutes(app);
+  // Authenticated file access for the local and S3 storage drivers under /api/storage
+  registerStorageRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -60,6 +67,8 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  startMediaCleanupSchedule();
 }
 
 startServer().catch(console.error);
@@ -30,6 +30,8 @@ export type Message = {
   content: MessageContent | MessageContent[];
   name?: string;
   tool_call_id?: string;
+  // Calls an assistant turn made, replayed so the following tool messages have their request
+  tool_calls?: ToolCall[];
 };
 
 export type Tool = {
@@ -137,7 +139,7 @@ const normalizeContentPart = (
 };
 
 const normalizeMessage = (message: Message) => {
-  const { role, name, tool_call_id } = message;
+  const { role, name, tool_call_id, tool_calls } = message;
 
   if (role === "tool" || role === "function") {
     const content = ensureArray(message.content)
@@ -152,6 +154,15 @@ const normalizeMessage = (message: Message) => {
     };
   }
 
+  if (role === "assistant" && tool_calls?.length) {
+    return {
+      role,
+      name,
+      content: typeof message.content === "string" ? message.content : "",
+      tool_calls,
+    };
+  }
+
   const contentParts = ensureArray(message.content).map(normalizeContentPart);
 
   // If there's only text content, collapse to a single string for compatibility
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAuthContext } from "./test/context";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getChatThreadById: vi.fn(),
+    getChatMessages: vi.fn(),
+    createChatThread: vi.fn(async thread => ({ ...thread, id: 7, createdAt: new Date(), updatedAt: new Date() })),
+    createChatMessages: vi.fn(async messages => messages.map((message: object, index: number) => ({ ...message, id: index + 1, createdAt: new Date() }))),
+    touchChatThread: vi.fn(),
+    getMoodHistoryByDateRange: vi.fn(),
+  };
+});
+
+vi.mock("./_core/llm", () => ({ invokeLLM: vi.fn() }));
+
+import type { ChatThread } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import { invokeLLM, type InvokeResult, type ToolCall } from "./_core/llm";
+import { runAssistantTool } from "./assistant";
+import * as db from "./db";
+import { appRouter } from "./routers";
+
+function reply(content: string, toolCalls?: ToolCall[]): InvokeResult {
+  return {
+    id: "r1",
+    created: 0,
+    model: "test",
+    choices: [{ index: 0, finish_reason: toolCalls ? "tool_calls" : "stop", message: { role: "assistant", content, tool_calls: toolCalls } }],
+  };
+}
+
+function toolCall(name: string, args: object): ToolCall {
+  return { id: `call-${name}`, type: "function", function: { name, arguments: JSON.stringify(args) } };
+}
+
+const thread: ChatThread = { id: 3, userId: 1, title: "Sleep", createdAt: new Date(), updatedAt: new Date() };
+const day = (iso: string) => new Date(`${iso}T00:00:00`);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  ENV.forgeApiKey = "test-key";
+});
+
+describe("assistant.send", () => {
+  it("looks up the journal with tools and saves the exchange in a new thread", async () => {
+    vi.mocked(db.getMoodHistoryByDateRange).mockResolvedValue([
+      { id: 2, userId: 1, date: day("2026-02-20"), mood: "sad", moodIntensity: 3, notes: "Missed the train", createdAt: new Date(), updatedAt: new Date() },
+      { id: 1, userId: 1, date: day("2026-02-18"), mood: "good", moodIntensity: 7, notes: null, createdAt: new Date(), updatedAt: new Date() },
+    ]);
+    vi.mocked(invokeLLM)
+      .mockResolvedValueOnce(reply("", [toolCall("get_mood_history", { mood: "sad", from: "2025-03-01" })]))
+      .mockResolvedValueOnce(reply("You last felt this way on 20 February, after missing the train."));
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    const result = await caller.assistant.send({ content: "When did I last feel this way?" });
+    expect(result.thread).toMatchObject({ id: 7, title: "When did I last feel this way?" });
+    expect(result.messages.map(message => [message.role, message.content])).toEqual([
+      ["user", "When did I last feel this way?"],
+      ["assistant", "You last felt this way on 20 February, after missing the train."],
+    ]);
+
+    const [, start] = vi.mocked(db.getMoodHistoryByDateRange).mock.calls[0];
+    expect(start).toEqual(day("2025-03-01"));
+    const [{ messages }] = vi.mocked(invokeLLM).mock.calls[1];
+    expect(messages.at(-2)).toMatchObject({ role: "assistant", tool_calls: [{ id: "call-get_mood_history" }] });
+    expect(messages.at(-1)).toMatchObject({ role: "tool", tool_call_id: "call-get_mood_history" });
+    // Only the sad day goes back to the model
+    expect(JSON.parse(messages.at(-1)!.content as string)).toEqual([
+      { date: day("2026-02-20").toISOString().slice(0, 10), mood: "sad", intensity: 3, notes: "Missed the train" },
+    ]);
+  });
+
+  it("continues an existing thread with its history", async () => {
+    vi.mocked(db.getChatThreadById).mockResolvedValue(thread);
+    vi.mocked(db.getChatMessages).mockResolvedValue([
+      { id: 1, threadId: 3, userId: 1, role: "user", content: "How did I sleep?", createdAt: new Date() },
+      { id: 2, threadId: 3, userId: 1, role: "assistant", content: "Not well last week.", createdAt: new Date() },
+    ]);
+    vi.mocked(invokeLLM).mockResolvedValue(reply("It improved after you stopped late coffee."));
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await caller.assistant.send({ threadId: 3, content: "And since then?" });
+    const [{ messages }] = vi.mocked(invokeLLM).mock.calls[0];
+    expect(messages.slice(1).map(message => message.content)).toEqual(["How did I sleep?", "Not well last week.", "And since then?"]);
+    expect(db.createChatThread).not.toHaveBeenCalled();
+    expect(db.touchChatThread).toHaveBeenCalledWith(3);
+  });
+
+  it("hides other users' threads", async () => {
+    vi.mocked(db.getChatThreadById).mockResolvedValue(thread);
+    const caller = appRouter.createCaller(createAuthContext(2).ctx);
+
+    await expect(caller.assistant.send({ threadId: 3, content: "Hi" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.assistant.messages({ threadId: 3 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(invokeLLM).not.toHaveBeenCalled();
+  });
+
+  it("saves nothing when the model fails", async () => {
+    vi.mocked(invokeLLM).mockRejectedValue(new Error("LLM invoke failed: 500"));
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.assistant.send({ content: "Hi" })).rejects.toMatchObject({ code: "INTERNAL_SERVER_ERROR" });
+    expect(db.createChatThread).not.toHaveBeenCalled();
+    expect(db.createChatMessages).not.toHaveBeenCalled();
+  });
+
+  it("is unavailable without an LLM key", async () => {
+    ENV.forgeApiKey = "";
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.assistant.send({ content: "Hi" })).rejects.toMatchObject({ code: "PRECONDITION_FAILED" });
+  });
+});
+
+describe("runAssistantTool", () => {
+  it("hands bad arguments back to the model instead of querying", async () => {
+    await expect(runAssistantTool(1, toolCall("get_mood_history", { mood: "furious" }))).resolves.toMatchObject({ error: expect.stringContaining("Invalid arguments") });
+    await expect(runAssistantTool(1, toolCall("drop_tables", {}))).resolves.toEqual({ error: "Unknown tool drop_tables" });
+    expect(db.getMoodHistoryByDateRange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,286 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import type { ChatThread } from "../drizzle/schema";
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { invokeLLM, type InvokeResult, type Message, type Tool, type ToolCall } from "./_core/llm";
+import { searchJournal } from "./search";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+// Tool-calling rounds before the model must answer with what it has
+const MAX_TOOL_ROUNDS = 5;
+// Earlier turns of the thread sent along with a new question
+const HISTORY_MESSAGES = 20;
+const ENTRY_EXCERPT_CHARS = 1200;
+const THREAD_TITLE_CHARS = 80;
+
+const moodSchema = z.enum(["excellent", "good", "neutral", "sad", "terrible"]);
+
+const rangeSchema = z.object({
+  from: z.iso.date().optional(),
+  to: z.iso.date().optional(),
+});
+
+const rangeProperties = {
+  from: { type: "string", description: "First day to include, YYYY-MM-DD. Defaults to 30 days before `to`." },
+  to: { type: "string", description: "Last day to include, YYYY-MM-DD. Defaults to today." },
+};
+
+function formatDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// Dates from the model are whole days; the range covers both of them completely
+function resolveRange({ from, to }: z.infer<typeof rangeSchema>) {
+  const end = to ? new Date(`${to}T00:00:00`) : new Date();
+  end.setHours(23, 59, 59, 999);
+  const start = from ? new Date(`${from}T00:00:00`) : new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+  start.setHours(0, 0, 0, 0);
+  return { start, end };
+}
+
+function excerpt(text: string | null, length = ENTRY_EXCERPT_CHARS) {
+  const normalized = (text ?? "").replace(/\s+/g, " ").trim();
+  return normalized.length > length ? `${normalized.slice(0, length)}…` : normalized;
+}
+
+type AssistantTool<S extends z.ZodType> = {
+  definition: Tool;
+  args: S;
+  run: (userId: number, args: z.infer<S>) => Promise<unknown>;
+};
+
+function defineTool<S extends z.ZodType>(tool: AssistantTool<S>) {
+  return tool;
+}
+
+/**
+ * Read-only views of the user's own journal the model can call. Every query is
+ * scoped to the asking user; the model never sees ids it could use elsewhere.
+ */
+const tools = [
+  defineTool({
+    definition: {
+      type: "function",
+      function: {
+        name: "search_journal",
+        description: "Full-text search over diary entries, mood notes and habit notes. Best for finding when a topic, person or feeling came up.",
+        parameters: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "Words to look for" },
+            limit: { type: "integer", minimum: 1, maximum: 20 },
+          },
+          required: ["query"],
+        },
+      },
+    },
+    args: z.object({ query: z.string().trim().min(1).max(200), limit: z.number().int().min(1).max(20).default(10) }),
+    async run(userId, { query, limit }) {
+      const results = await searchJournal(userId, query, limit);
+      return results.map(result => ({
+        type: result.type,
+        date: formatDay(result.date),
+        title: result.title,
+        excerpt: result.snippet.map(part => part.text).join(""),
+      }));
+    },
+  }),
+  defineTool({
+    definition: {
+      type: "function",
+      function: {
+        name: "get_diary_entries",
+        description: "Diary entries written in a date range, newest first, with the mood recorded on each.",
+        parameters: {
+          type: "object",
+          properties: {
+            ...rangeProperties,
+            mood: { type: "string", enum: moodSchema.options },
+            limit: { type: "integer", minimum: 1, maximum: 20 },
+          },
+        },
+      },
+    },
+    args: rangeSchema.extend({ mood: moodSchema.optional(), limit: z.number().int().min(1).max(20).default(10) }),
+    async run(userId, args) {
+      const { start, end } = resolveRange(args);
+      const entries = await db.getDiaryEntriesByDateRange(userId, start, end);
+      return entries
+        .filter(entry => !args.mood || entry.mood === args.mood)
+        .reverse()
+        .slice(0, args.limit)
+        .map(entry => ({
+          date: formatDay(entry.date),
+          title: entry.title,
+          mood: entry.mood,
+          moodIntensity: entry.moodIntensity,
+          content: excerpt(entry.content),
+        }));
+    },
+  }),
+  defineTool({
+    definition: {
+      type: "function",
+      function: {
+        name: "get_mood_history",
+        description:
+          "Daily mood check-ins (mood, intensity 1-10, notes) in a date range, newest first. " +
+          "Filter by mood with a wide range to find when the user last felt a certain way.",
+        parameters: {
+          type: "object",
+          properties: {
+            ...rangeProperties,
+            mood: { type: "string", enum: moodSchema.options },
+            limit: { type: "integer", minimum: 1, maximum: 100 },
+          },
+        },
+      },
+    },
+    args: rangeSchema.extend({ mood: moodSchema.optional(), limit: z.number().int().min(1).max(100).default(31) }),
+    async run(userId, args) {
+      const { start, end } = resolveRange(args);
+      const moods = await db.getMoodHistoryByDateRange(userId, start, end);
+      return moods
+        .filter(mood => !args.mood || mood.mood === args.mood)
+        .slice(0, args.limit)
+        .map(mood => ({ date: formatDay(mood.date), mood: mood.mood, intensity: mood.moodIntensity, notes: mood.notes }));
+    },
+  }),
+  defineTool({
+    definition: {
+      type: "function",
+      function: {
+        name: "get_habit_completions",
+        description: "Habit check-ins in a date range, newest first, showing whether each habit was done that day.",
+        parameters: {
+          type: "object",
+          properties: {
+            ...rangeProperties,
+            habit: { type: "string", description: "Only habits whose name contains this" },
+          },
+        },
+      },
+    },
+    args: rangeSchema.extend({ habit: z.string().trim().max(255).optional() }),
+    async run(userId, args) {
+      const { start, end } = resolveRange(args);
+      const completions = await db.getHabitCompletionsByDateRange(userId, start, end);
+      const habit = args.habit?.toLowerCase();
+      return completions
+        .filter(completion => !habit || completion.habitName.toLowerCase().includes(habit))
+        .slice(0, 100)
+        .map(completion => ({
+          date: formatDay(completion.date),
+          habit: completion.habitName,
+          completed: completion.completed === 1,
+          notes: completion.notes,
+        }));
+    },
+  }),
+];
+
+/**
+ * Runs one tool call from the model. Unknown tools and bad arguments come back
+ * as an error for the model to correct rather than failing the whole answer.
+ */
+export async function runAssistantTool(userId: number, call: ToolCall): Promise<unknown> {
+  const tool = tools.find(tool => tool.definition.function.name === call.function.name);
+  if (!tool) return { error: `Unknown tool ${call.function.name}` };
+
+  let raw: unknown;
+  try {
+    raw = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+  } catch {
+    return { error: "Arguments were not valid JSON" };
+  }
+  const parsed = tool.args.safeParse(raw);
+  if (!parsed.success) return { error: `Invalid arguments: ${parsed.error.message}` };
+  return (tool.run as (userId: number, args: unknown) => Promise<unknown>)(userId, parsed.data);
+}
+
+export function isAssistantAvailable() {
+  return !!ENV.forgeApiKey;
+}
+
+function textOf(content: InvokeResult["choices"][number]["message"]["content"] | undefined) {
+  if (typeof content === "string") return content;
+  return content?.map(part => (part.type === "text" ? part.text : "")).join("") ?? "";
+}
+
+function systemPrompt(today: Date) {
+  return (
+    "You are a reflection companion inside the user's private diary. Help them notice patterns and remember moments " +
+    "by answering from their own journal, which you can read with the tools. Look things up before answering questions " +
+    "about their past, mention the dates you found, and say plainly when the journal has nothing on it rather than guessing. " +
+    "Be warm and brief. You are not a therapist; if they mention wanting to harm themselves, gently encourage them to " +
+    `contact someone they trust or a local crisis line. Today is ${formatDay(today)}.`
+  );
+}
+
+/**
+ * Lets the model call journal tools until it answers, forcing an answer after
+ * MAX_TOOL_ROUNDS so a confused model cannot loop.
+ */
+async function answer(userId: number, messages: Message[]): Promise<string> {
+  const conversation: Message[] = [{ role: "system", content: systemPrompt(new Date()) }, ...messages];
+  const definitions = tools.map(tool => tool.definition);
+
+  for (let round = 0; ; round++) {
+    const lastRound = round === MAX_TOOL_ROUNDS;
+    let result: InvokeResult;
+    try {
+      result = await invokeLLM({ messages: conversation, tools: definitions, toolChoice: lastRound ? "none" : "auto" });
+    } catch (error) {
+      console.error("[Assistant] LLM request failed", error);
+      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "The assistant could not answer, please try again" });
+    }
+
+    const message = result.choices[0]?.message;
+    const calls = message?.tool_calls ?? [];
+    if (calls.length === 0 || lastRound) {
+      const text = textOf(message?.content).trim();
+      if (!text) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "The assistant could not answer, please try again" });
+      }
+      return text;
+    }
+
+    conversation.push({ role: "assistant", content: textOf(message?.content), tool_calls: calls });
+    for (const call of calls) {
+      const output = await runAssistantTool(userId, call);
+      conversation.push({ role: "tool", tool_call_id: call.id, name: call.function.name, content: JSON.stringify(output) });
+    }
+  }
+}
+
+function threadTitle(question: string) {
+  const line = question.trim().split("\n")[0];
+  return line.length > THREAD_TITLE_CHARS ? `${line.slice(0, THREAD_TITLE_CHARS - 1)}…` : line;
+}
+
+/**
+ * Answers a question in a thread, or in a new thread when none is given. The
+ * question and answer are only saved once the answer exists, so a failed
+ * request can simply be sent again.
+ */
+export async function askAssistant(userId: number, thread: ChatThread | null, question: string) {
+  if (!isAssistantAvailable()) {
+    throw new TRPCError({ code: "PRECONDITION_FAILED", message: "The reflection assistant is not configured" });
+  }
+
+  const history = thread ? (await db.getChatMessages(thread.id)).slice(-HISTORY_MESSAGES) : [];
+  const reply = await answer(userId, [
+    ...history.map(message => ({ role: message.role, content: message.content })),
+    { role: "user", content: question },
+  ]);
+
+  const target = thread ?? (await db.createChatThread({ userId, title: threadTitle(question) }));
+  const messages = await db.createChatMessages([
+    { threadId: target.id, userId, role: "user", content: question },
+    { threadId: target.id, userId, role: "assistant", content: reply },
+  ]);
+  if (thread) await db.touchChatThread(thread.id);
+  return { thread: target, messages };
+}
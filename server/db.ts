@@ -1,6 +1,6 @@
-import { eq, and, gte, lte, desc, sql } from "drizzle-orm";
+import { eq, and, or, gte, lte, lt, desc, sql, isNull, isNotNull, inArray, exists, notExists, getTableColumns, type SQL } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users, diaryEntries, mediaFiles, habits, habitCompletions, moodHistory, moodInsights } from "../drizzle/schema";
+import { InsertUser, users, DiaryEntry, diaryEntries, diaryEntryRevisions, diaryDrafts, InsertDiaryDraft, mediaFiles, mediaVariants, InsertMediaVariant, audioTranscripts, InsertAudioTranscript, tags, entryTags, Tag, writingPrompts, InsertWritingPrompt, dailyPrompts, habits, habitCompletions, moodHistory, moodInsights, chatThreads, InsertChatThread, chatMessages, InsertChatMessage } from "../drizzle/schema";
 import { ENV } from './_core/env';
 
 let _db: ReturnType<typeof drizzle> | null = null;
@@ -90,57 +90,613 @@ export async function getUserByOpenId(openId: string) {
 }
 
 // Diary entry queries
-export async function getDiaryEntries(userId: number, limit = 50, offset = 0) {
+export type DiaryEntryFilters = {
+  from?: Date;
+  to?: Date;
+  mood?: NonNullable<DiaryEntry["mood"]>;
+  hasMedia?: boolean;
+  tagId?: number;
+};
+
+// Keyset page, newest first; cursor is the (date, id) of the last entry already shown
+export async function getDiaryEntriesPage(
+  userId: number,
+  filters: DiaryEntryFilters,
+  limit: number,
+  cursor?: { date: Date; id: number } | null
+) {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(diaryEntries).where(eq(diaryEntries.userId, userId)).orderBy(desc(diaryEntries.date)).limit(limit).offset(offset);
+
+  const conditions: SQL[] = [eq(diaryEntries.userId, userId), isNull(diaryEntries.deletedAt)];
+  if (filters.from) conditions.push(gte(diaryEntries.date, filters.from));
+  if (filters.to) conditions.push(lte(diaryEntries.date, filters.to));
+  if (filters.mood) conditions.push(eq(diaryEntries.mood, filters.mood));
+  if (filters.hasMedia !== undefined) {
+    const media = db.select({ id: mediaFiles.id }).from(mediaFiles).where(
+      and(eq(mediaFiles.diaryEntryId, diaryEntries.id), isNull(mediaFiles.deletedAt))
+    );
+    conditions.push(filters.hasMedia ? exists(media) : notExists(media));
+  }
+  if (filters.tagId !== undefined) {
+    conditions.push(exists(db.select({ id: entryTags.id }).from(entryTags).where(
+      and(eq(entryTags.diaryEntryId, diaryEntries.id), eq(entryTags.tagId, filters.tagId))
+    )));
+  }
+  if (cursor) {
+    conditions.push(or(
+      lt(diaryEntries.date, cursor.date),
+      and(eq(diaryEntries.date, cursor.date), lt(diaryEntries.id, cursor.id))
+    )!);
+  }
+
+  return db.select().from(diaryEntries)
+    .where(and(...conditions))
+    .orderBy(desc(diaryEntries.date), desc(diaryEntries.id))
+    .limit(limit);
 }
 
-export async function getDiaryEntryByDate(userId: number, date: Date) {
+export async function getDiaryEntryById(id: number) {
   const db = await getDb();
   if (!db) return undefined;
+  const result = await db.select().from(diaryEntries).where(eq(diaryEntries.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getDiaryEntriesByDate(userId: number, date: Date) {
+  const db = await getDb();
+  if (!db) return [];
   const startOfDay = new Date(date);
   startOfDay.setHours(0, 0, 0, 0);
   const endOfDay = new Date(date);
   endOfDay.setHours(23, 59, 59, 999);
-  
-  const result = await db.select().from(diaryEntries).where(
-    and(eq(diaryEntries.userId, userId), gte(diaryEntries.date, startOfDay), lte(diaryEntries.date, endOfDay))
-  ).limit(1);
-  
-  return result.length > 0 ? result[0] : undefined;
+
+  return db.select().from(diaryEntries).where(
+    and(eq(diaryEntries.userId, userId), gte(diaryEntries.date, startOfDay), lte(diaryEntries.date, endOfDay), isNull(diaryEntries.deletedAt))
+  ).orderBy(diaryEntries.date, diaryEntries.id);
+}
+
+// A day can hold several entries; this returns the earliest one
+export async function getDiaryEntryByDate(userId: number, date: Date) {
+  const entries = await getDiaryEntriesByDate(userId, date);
+  return entries.length > 0 ? entries[0] : undefined;
+}
+
+export async function getDiaryEntriesByDateRange(userId: number, startDate: Date, endDate: Date) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(diaryEntries).where(
+    and(eq(diaryEntries.userId, userId), gte(diaryEntries.date, startDate), lte(diaryEntries.date, endDate), isNull(diaryEntries.deletedAt))
+  ).orderBy(diaryEntries.date, diaryEntries.id);
 }
 
 export async function createDiaryEntry(entry: typeof diaryEntries.$inferInsert) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  const result = await db.insert(diaryEntries).values(entry);
-  return result;
+  const [{ id }] = await db.insert(diaryEntries).values(entry).$returningId();
+  const created = await getDiaryEntryById(id);
+  if (!created) throw new Error("Failed to load created diary entry");
+  return created;
+}
+
+// Finds an entry created from an offline-queued request that already reached the server
+export async function getDiaryEntryByClientId(userId: number, clientId: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(diaryEntries).where(and(eq(diaryEntries.userId, userId), eq(diaryEntries.clientId, clientId))).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Saves changes to an entry and bumps its version. With expectedVersion the write only lands
+ * on that version, so of two saves based on the same version one loses; returns false then.
+ * keepVersion is for changes the writer did not make, so editors open elsewhere are not stale.
+ */
+export async function updateDiaryEntry(
+  id: number,
+  updates: Partial<typeof diaryEntries.$inferInsert>,
+  { expectedVersion, keepVersion = false }: { expectedVersion?: number; keepVersion?: boolean } = {}
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async tx => {
+    // Lock the row so the snapshot below is of exactly the text this update replaces
+    const [current] = await tx.select().from(diaryEntries).where(eq(diaryEntries.id, id)).for("update");
+    if (!current || (expectedVersion !== undefined && current.version !== expectedVersion)) return false;
+
+    const [result] = await tx
+      .update(diaryEntries)
+      .set({ ...updates, version: keepVersion ? undefined : sql`${diaryEntries.version} + 1` })
+      .where(and(eq(diaryEntries.id, id), expectedVersion !== undefined ? eq(diaryEntries.version, expectedVersion) : undefined));
+    if (result.affectedRows === 0) return false;
+
+    // Only a save that landed leaves a revision behind
+    const titleChanged = updates.title !== undefined && updates.title !== current.title;
+    const contentChanged = updates.content !== undefined && updates.content !== current.content;
+    const formatChanged = updates.contentFormat !== undefined && updates.contentFormat !== current.contentFormat;
+    if (titleChanged || contentChanged || formatChanged) {
+      await tx.insert(diaryEntryRevisions).values({
+        diaryEntryId: current.id,
+        userId: current.userId,
+        title: current.title,
+        content: current.content,
+        contentFormat: current.contentFormat,
+      });
+    }
+    return true;
+  });
+}
+
+// Diary entry revision queries
+export async function getDiaryEntryRevisions(diaryEntryId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(diaryEntryRevisions).where(eq(diaryEntryRevisions.diaryEntryId, diaryEntryId)).orderBy(desc(diaryEntryRevisions.createdAt), desc(diaryEntryRevisions.id));
+}
+
+export async function getDiaryEntryRevisionById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(diaryEntryRevisions).where(eq(diaryEntryRevisions.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// Diary draft queries; diaryEntryId null is the draft of a new entry
+export async function getDiaryDraft(userId: number, diaryEntryId: number | null) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const entryCondition = diaryEntryId === null ? isNull(diaryDrafts.diaryEntryId) : eq(diaryDrafts.diaryEntryId, diaryEntryId);
+  const result = await db.select().from(diaryDrafts).where(and(eq(diaryDrafts.userId, userId), entryCondition)).orderBy(desc(diaryDrafts.updatedAt)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+/**
+ * Writes the draft and bumps its version. expectedVersion is the version being saved over,
+ * or null to start a draft; returns undefined when another save changed it first.
+ */
+export async function saveDiaryDraft(draft: InsertDiaryDraft, expectedVersion: number | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const nextVersion = sql`${diaryDrafts.version} + 1`;
+  if (expectedVersion === null) {
+    // The unique (userId, entryKey) index keeps a single draft when two devices start one at once;
+    // the later write bumps the version, so the other device's next save is caught as a conflict
+    await db.insert(diaryDrafts).values(draft).onDuplicateKeyUpdate({ set: { ...draft, version: nextVersion } });
+  } else {
+    const diaryEntryId = draft.diaryEntryId ?? null;
+    const entryCondition = diaryEntryId === null ? isNull(diaryDrafts.diaryEntryId) : eq(diaryDrafts.diaryEntryId, diaryEntryId);
+    const [result] = await db
+      .update(diaryDrafts)
+      .set({ ...draft, version: nextVersion })
+      .where(and(eq(diaryDrafts.userId, draft.userId), entryCondition, eq(diaryDrafts.version, expectedVersion)));
+    if (result.affectedRows === 0) return undefined;
+  }
+  return getDiaryDraft(draft.userId, draft.diaryEntryId ?? null);
+}
+
+// With a version, only that version of the draft is deleted, so one saved since is kept
+export async function deleteDiaryDraft(userId: number, diaryEntryId: number | null, version?: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const entryCondition = diaryEntryId === null ? isNull(diaryDrafts.diaryEntryId) : eq(diaryDrafts.diaryEntryId, diaryEntryId);
+  const versionCondition = version !== undefined ? eq(diaryDrafts.version, version) : undefined;
+  await db.delete(diaryDrafts).where(and(eq(diaryDrafts.userId, userId), entryCondition, versionCondition));
+}
+
+// Trash: soft-deleted entries keep their media rows, flagged alongside them
+export async function getDeletedDiaryEntries(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(diaryEntries).where(and(eq(diaryEntries.userId, userId), isNotNull(diaryEntries.deletedAt))).orderBy(desc(diaryEntries.deletedAt));
 }
 
-export async function updateDiaryEntry(id: number, updates: Partial<typeof diaryEntries.$inferInsert>) {
+export async function softDeleteDiaryEntry(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  return db.update(diaryEntries).set(updates).where(eq(diaryEntries.id, id));
+  const deletedAt = new Date();
+  await db.update(diaryEntries).set({ deletedAt }).where(eq(diaryEntries.id, id));
+  await db.update(mediaFiles).set({ deletedAt }).where(eq(mediaFiles.diaryEntryId, id));
+}
+
+export async function restoreDiaryEntry(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(diaryEntries).set({ deletedAt: null }).where(eq(diaryEntries.id, id));
+  await db.update(mediaFiles).set({ deletedAt: null }).where(eq(mediaFiles.diaryEntryId, id));
+}
+
+// Returns the removed media rows so their stored objects can be deleted too
+export async function purgeDiaryEntries(ids: number[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (ids.length === 0) return [];
+  const media = await db.select().from(mediaFiles).where(inArray(mediaFiles.diaryEntryId, ids));
+  await db.delete(mediaFiles).where(inArray(mediaFiles.diaryEntryId, ids));
+  if (media.length > 0) {
+    await db.delete(audioTranscripts).where(inArray(audioTranscripts.mediaFileId, media.map(m => m.id)));
+  }
+  await db.delete(diaryEntryRevisions).where(inArray(diaryEntryRevisions.diaryEntryId, ids));
+  await db.delete(entryTags).where(inArray(entryTags.diaryEntryId, ids));
+  await db.delete(diaryDrafts).where(inArray(diaryDrafts.diaryEntryId, ids));
+  await db.delete(diaryEntries).where(inArray(diaryEntries.id, ids));
+  return media;
+}
+
+export async function purgeExpiredDiaryEntries(userId: number, deletedBefore: Date) {
+  const db = await getDb();
+  if (!db) return [];
+  const expired = await db.select({ id: diaryEntries.id }).from(diaryEntries).where(
+    and(eq(diaryEntries.userId, userId), lt(diaryEntries.deletedAt, deletedBefore))
+  );
+  return purgeDiaryEntries(expired.map(e => e.id));
 }
 
 // Media file queries
 export async function getMediaFilesByDiaryEntry(diaryEntryId: number) {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(mediaFiles).where(eq(mediaFiles.diaryEntryId, diaryEntryId));
+  return db.select().from(mediaFiles).where(and(eq(mediaFiles.diaryEntryId, diaryEntryId), isNull(mediaFiles.deletedAt)));
 }
 
 export async function getMediaFilesByUser(userId: number, limit = 100) {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(mediaFiles).where(eq(mediaFiles.userId, userId)).orderBy(desc(mediaFiles.uploadedAt)).limit(limit);
+  return db.select().from(mediaFiles).where(and(eq(mediaFiles.userId, userId), isNull(mediaFiles.deletedAt))).orderBy(desc(mediaFiles.uploadedAt)).limit(limit);
+}
+
+// Gallery ordering: when the photo was taken if known, otherwise when it was uploaded
+const mediaDate = sql`COALESCE(${mediaFiles.takenAt}, ${mediaFiles.uploadedAt})`.mapWith(mediaFiles.uploadedAt);
+const mediaMonth = sql<string>`DATE_FORMAT(COALESCE(${mediaFiles.takenAt}, ${mediaFiles.uploadedAt}), '%Y-%m')`;
+
+export type MediaGalleryFilters = {
+  fileType?: "image" | "video";
+  month?: string; // yyyy-MM
+};
+
+// Only media attached to a live entry; unattached drafts are left to the orphan sweep
+function galleryConditions(userId: number, filters: MediaGalleryFilters) {
+  const conditions: SQL[] = [eq(mediaFiles.userId, userId), isNull(mediaFiles.deletedAt), isNotNull(mediaFiles.diaryEntryId)];
+  // Voice notes have nothing to show in a grid, so the gallery sticks to photos and videos
+  conditions.push(filters.fileType ? eq(mediaFiles.fileType, filters.fileType) : inArray(mediaFiles.fileType, ["image", "video"]));
+  if (filters.month) conditions.push(sql`${mediaMonth} = ${filters.month}`);
+  return conditions;
+}
+
+// Rows after the (date, id) of the last one already shown. The date goes through the column's encoder
+// so it is written in UTC like the stored timestamps, not in the server's local time
+export function galleryCursorCondition(cursor: { date: Date; id: number }) {
+  const date = sql.param(cursor.date, mediaFiles.uploadedAt);
+  return or(sql`${mediaDate} < ${date}`, and(sql`${mediaDate} = ${date}`, lt(mediaFiles.id, cursor.id)))!;
+}
+
+// Keyset page, newest first
+export async function getMediaGalleryPage(
+  userId: number,
+  filters: MediaGalleryFilters,
+  limit: number,
+  cursor?: { date: Date; id: number } | null
+) {
+  const db = await getDb();
+  if (!db) return [];
+  const conditions = galleryConditions(userId, filters);
+  if (cursor) conditions.push(galleryCursorCondition(cursor));
+  return db.select({ ...getTableColumns(mediaFiles), mediaDate })
+    .from(mediaFiles)
+    .where(and(...conditions))
+    .orderBy(desc(mediaDate), desc(mediaFiles.id))
+    .limit(limit);
+}
+
+export async function getMediaGalleryMonths(userId: number, fileType?: MediaGalleryFilters["fileType"]) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select({ month: mediaMonth, count: sql<number>`COUNT(*)`.mapWith(Number) })
+    .from(mediaFiles)
+    .where(and(...galleryConditions(userId, { fileType })))
+    .groupBy(mediaMonth)
+    .orderBy(desc(mediaMonth));
+}
+
+export async function getMediaFileById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
 }
 
 export async function createMediaFile(file: typeof mediaFiles.$inferInsert) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  return db.insert(mediaFiles).values(file);
+  const [{ id }] = await db.insert(mediaFiles).values(file).$returningId();
+  const created = await getMediaFileById(id);
+  if (!created) throw new Error("Failed to load created media file");
+  return created;
+}
+
+export async function deleteMediaFile(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(audioTranscripts).where(eq(audioTranscripts.mediaFileId, id));
+  return db.delete(mediaFiles).where(eq(mediaFiles.id, id));
+}
+
+// Uploads a draft is still holding for a new entry; attached or foreign ids drop out
+export async function getPendingMediaFiles(userId: number, ids: number[]) {
+  const db = await getDb();
+  if (!db) return [];
+  if (ids.length === 0) return [];
+  return db.select().from(mediaFiles).where(and(
+    inArray(mediaFiles.id, ids),
+    eq(mediaFiles.userId, userId),
+    isNull(mediaFiles.diaryEntryId),
+    isNull(mediaFiles.deletedAt),
+  ));
+}
+
+// Unattached uploads (e.g. abandoned drafts) older than the cutoff; uploads a saved draft still holds are kept
+export async function getOrphanedMediaFiles(uploadedBefore: Date) {
+  const db = await getDb();
+  if (!db) return [];
+  const heldByDraft = db.select({ id: diaryDrafts.id }).from(diaryDrafts)
+    .where(sql`JSON_CONTAINS(${diaryDrafts.mediaIds}, CAST(${mediaFiles.id} AS JSON))`);
+  return db.select().from(mediaFiles).where(and(
+    isNull(mediaFiles.diaryEntryId),
+    lt(mediaFiles.uploadedAt, uploadedBefore),
+    notExists(heldByDraft),
+  ));
+}
+
+export async function getExistingMediaFileKeys(fileKeys: string[]) {
+  const db = await getDb();
+  if (!db) return new Set<string>();
+  if (fileKeys.length === 0) return new Set<string>();
+  const rows = await db.select({ fileKey: mediaFiles.fileKey }).from(mediaFiles).where(inArray(mediaFiles.fileKey, fileKeys));
+  const variantRows = await db.select({ fileKey: mediaVariants.fileKey }).from(mediaVariants).where(inArray(mediaVariants.fileKey, fileKeys));
+  return new Set([...rows, ...variantRows].map(r => r.fileKey));
+}
+
+// Only rows owned by userId are touched, so foreign ids are silently skipped
+export async function attachMediaFilesToDiaryEntry(ids: number[], userId: number, diaryEntryId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (ids.length === 0) return;
+  await db.update(mediaFiles).set({ diaryEntryId }).where(and(inArray(mediaFiles.id, ids), eq(mediaFiles.userId, userId)));
+}
+
+// Media variant queries
+export async function getMediaVariantsByMediaFileIds(mediaFileIds: number[]) {
+  const db = await getDb();
+  if (!db) return [];
+  if (mediaFileIds.length === 0) return [];
+  return db.select().from(mediaVariants).where(inArray(mediaVariants.mediaFileId, mediaFileIds)).orderBy(mediaVariants.width);
+}
+
+export async function createMediaVariants(variants: InsertMediaVariant[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (variants.length === 0) return;
+  await db.insert(mediaVariants).values(variants);
+}
+
+// Returns the removed variant rows so their stored objects can be deleted too
+export async function deleteMediaVariants(mediaFileIds: number[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (mediaFileIds.length === 0) return [];
+  const variants = await db.select().from(mediaVariants).where(inArray(mediaVariants.mediaFileId, mediaFileIds));
+  await db.delete(mediaVariants).where(inArray(mediaVariants.mediaFileId, mediaFileIds));
+  return variants;
+}
+
+// Audio transcript queries
+export async function getAudioTranscript(mediaFileId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(audioTranscripts).where(eq(audioTranscripts.mediaFileId, mediaFileId)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// Transcribing again replaces the earlier transcript
+export async function saveAudioTranscript(transcript: InsertAudioTranscript) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const { mediaFileId, ...rest } = transcript;
+  await db.insert(audioTranscripts).values(transcript).onDuplicateKeyUpdate({ set: rest });
+  const saved = await getAudioTranscript(mediaFileId);
+  if (!saved) throw new Error("Failed to load saved transcript");
+  return saved;
+}
+
+// Full-text search; booleanQuery is a MySQL boolean-mode query built in server/search.ts.
+// MATCH column lists must mirror the FULLTEXT indexes in drizzle/0007_search_fulltext.sql
+export async function searchDiaryEntries(userId: number, booleanQuery: string, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const score = sql`MATCH(${diaryEntries.title}, ${diaryEntries.content}) AGAINST (${booleanQuery} IN BOOLEAN MODE)`.mapWith(Number);
+  return db.select({ id: diaryEntries.id, title: diaryEntries.title, content: diaryEntries.content, date: diaryEntries.date, score })
+    .from(diaryEntries)
+    .where(and(eq(diaryEntries.userId, userId), isNull(diaryEntries.deletedAt), sql`${score} > 0`))
+    .orderBy(desc(score))
+    .limit(limit);
+}
+
+export async function searchMoodNotes(userId: number, booleanQuery: string, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const score = sql`MATCH(${moodHistory.notes}) AGAINST (${booleanQuery} IN BOOLEAN MODE)`.mapWith(Number);
+  return db.select({ id: moodHistory.id, mood: moodHistory.mood, notes: moodHistory.notes, date: moodHistory.date, score })
+    .from(moodHistory)
+    .where(and(eq(moodHistory.userId, userId), sql`${score} > 0`))
+    .orderBy(desc(score))
+    .limit(limit);
+}
+
+export async function searchHabitCompletionNotes(userId: number, booleanQuery: string, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const score = sql`MATCH(${habitCompletions.notes}) AGAINST (${booleanQuery} IN BOOLEAN MODE)`.mapWith(Number);
+  return db.select({
+    id: habitCompletions.id,
+    habitId: habitCompletions.habitId,
+    habitName: habits.name,
+    notes: habitCompletions.notes,
+    date: habitCompletions.date,
+    score,
+  })
+    .from(habitCompletions)
+    .innerJoin(habits, eq(habits.id, habitCompletions.habitId))
+    .where(and(eq(habitCompletions.userId, userId), sql`${score} > 0`))
+    .orderBy(desc(score))
+    .limit(limit);
+}
+
+// Tag queries
+export async function getTagById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(tags).where(eq(tags.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getTagByName(userId: number, kind: Tag["kind"], name: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(tags).where(and(eq(tags.userId, userId), eq(tags.kind, kind), eq(tags.name, name))).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// Tags in use by live entries, most used first
+export async function getTagsWithCounts(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const entryCount = sql<number>`COUNT(${diaryEntries.id})`.mapWith(Number);
+  return db.select({ id: tags.id, kind: tags.kind, name: tags.name, entryCount })
+    .from(tags)
+    .innerJoin(entryTags, eq(entryTags.tagId, tags.id))
+    .innerJoin(diaryEntries, and(eq(diaryEntries.id, entryTags.diaryEntryId), isNull(diaryEntries.deletedAt)))
+    .where(eq(tags.userId, userId))
+    .groupBy(tags.id, tags.kind, tags.name)
+    .orderBy(desc(entryCount), tags.name);
+}
+
+// Replaces the entry's tag links with the given tags, creating tag rows as needed
+export async function setDiaryEntryTags(userId: number, diaryEntryId: number, parsed: Pick<Tag, "kind" | "name">[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(entryTags).where(eq(entryTags.diaryEntryId, diaryEntryId));
+  if (parsed.length > 0) {
+    await db.insert(tags).values(parsed.map(tag => ({ userId, ...tag }))).onDuplicateKeyUpdate({ set: { name: sql`${tags.name}` } });
+    const rows = await db.select({ id: tags.id }).from(tags).where(and(
+      eq(tags.userId, userId),
+      or(...parsed.map(tag => and(eq(tags.kind, tag.kind), eq(tags.name, tag.name))))
+    ));
+    await db.insert(entryTags).values(rows.map(row => ({ diaryEntryId, tagId: row.id })));
+  }
+
+  // Drop tags no entry mentions any more
+  await db.delete(tags).where(and(
+    eq(tags.userId, userId),
+    notExists(db.select({ id: entryTags.id }).from(entryTags).where(eq(entryTags.tagId, tags.id)))
+  ));
+}
+
+// Every entry linked to the tag, trashed ones included, so their content can be rewritten
+export async function getDiaryEntriesForTag(tagId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select({ id: diaryEntries.id, content: diaryEntries.content })
+    .from(diaryEntries)
+    .innerJoin(entryTags, eq(entryTags.diaryEntryId, diaryEntries.id))
+    .where(eq(entryTags.tagId, tagId));
+}
+
+export async function updateTagName(id: number, name: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(tags).set({ name }).where(eq(tags.id, id));
+}
+
+// Moves every link from source to target, then removes source
+export async function mergeTagInto(sourceId: number, targetId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const linked = await db.select({ diaryEntryId: entryTags.diaryEntryId }).from(entryTags).where(eq(entryTags.tagId, sourceId));
+  if (linked.length > 0) {
+    await db.insert(entryTags)
+      .values(linked.map(link => ({ diaryEntryId: link.diaryEntryId, tagId: targetId })))
+      .onDuplicateKeyUpdate({ set: { tagId: sql`${entryTags.tagId}` } });
+  }
+  await db.delete(entryTags).where(eq(entryTags.tagId, sourceId));
+  await db.delete(tags).where(eq(tags.id, sourceId));
+}
+
+// Writing prompt queries
+// The shared library plus the user's own prompts, in a stable order for rotation
+export async function getPromptsForUser(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(writingPrompts)
+    .where(or(isNull(writingPrompts.userId), eq(writingPrompts.userId, userId)))
+    .orderBy(writingPrompts.id);
+}
+
+export async function getPromptById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(writingPrompts).where(eq(writingPrompts.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function createPrompt(prompt: InsertWritingPrompt) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [{ id }] = await db.insert(writingPrompts).values(prompt).$returningId();
+  const created = await getPromptById(id);
+  if (!created) throw new Error("Failed to load created prompt");
+  return created;
+}
+
+// Days the prompt was given on are forgotten too, so those days pick again
+export async function deletePrompt(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(dailyPrompts).where(eq(dailyPrompts.promptId, id));
+  await db.delete(writingPrompts).where(eq(writingPrompts.id, id));
+}
+
+export async function getDailyPrompt(userId: number, date: Date) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const startOfDay = new Date(date);
+  startOfDay.setHours(0, 0, 0, 0);
+  const endOfDay = new Date(date);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  const result = await db.select(getTableColumns(writingPrompts)).from(dailyPrompts)
+    .innerJoin(writingPrompts, eq(writingPrompts.id, dailyPrompts.promptId))
+    .where(and(eq(dailyPrompts.userId, userId), gte(dailyPrompts.date, startOfDay), lte(dailyPrompts.date, endOfDay)))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// Prompt ids given on days before the given date, most recent first
+export async function getRecentDailyPromptIds(userId: number, before: Date, limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db.select({ promptId: dailyPrompts.promptId }).from(dailyPrompts)
+    .where(and(eq(dailyPrompts.userId, userId), lt(dailyPrompts.date, before)))
+    .orderBy(desc(dailyPrompts.date))
+    .limit(limit);
+  return rows.map(row => row.promptId);
+}
+
+export async function setDailyPrompt(userId: number, date: Date, promptId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.insert(dailyPrompts).values({ userId, date, promptId }).onDuplicateKeyUpdate({ set: { promptId } });
 }
 
 // Habit queries
@@ -150,6 +706,13 @@ export async function getHabitsByUser(userId: number) {
   return db.select().from(habits).where(and(eq(habits.userId, userId), eq(habits.isActive, 1))).orderBy(habits.createdAt);
 }
 
+export async function getHabitById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(habits).where(eq(habits.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function createHabit(habit: typeof habits.$inferInsert) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -184,7 +747,23 @@ export async function getHabitCompletionsByHabitAndDateRange(habitId: number, st
   ).orderBy(habitCompletions.date);
 }
 
-export async function upsertHabitCompletion(habitId: number, userId: number, date: Date, completed: boolean) {
+export async function getHabitCompletionByDate(habitId: number, date: Date) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const startOfDay = new Date(date);
+  startOfDay.setHours(0, 0, 0, 0);
+  const endOfDay = new Date(date);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  const result = await db.select().from(habitCompletions).where(
+    and(eq(habitCompletions.habitId, habitId), gte(habitCompletions.date, startOfDay), lte(habitCompletions.date, endOfDay))
+  ).limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// recordedAt stamps updatedAt with when an offline change was made rather than when it arrived
+export async function upsertHabitCompletion(habitId: number, userId: number, date: Date, completed: boolean, recordedAt?: Date) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
@@ -198,12 +777,29 @@ export async function upsertHabitCompletion(habitId: number, userId: number, dat
   ).limit(1);
   
   if (existing.length > 0) {
-    return db.update(habitCompletions).set({ completed: completed ? 1 : 0, completedAt: completed ? new Date() : null }).where(eq(habitCompletions.id, existing[0].id));
+    return db.update(habitCompletions).set({ completed: completed ? 1 : 0, completedAt: completed ? recordedAt ?? new Date() : null, updatedAt: recordedAt }).where(eq(habitCompletions.id, existing[0].id));
   } else {
-    return db.insert(habitCompletions).values({ habitId, userId, date, completed: completed ? 1 : 0, completedAt: completed ? new Date() : null });
+    return db.insert(habitCompletions).values({ habitId, userId, date, completed: completed ? 1 : 0, completedAt: completed ? recordedAt ?? new Date() : null, updatedAt: recordedAt });
   }
 }
 
+// Every habit's check-ins over a range, with the habit's name, for the reflection assistant
+export async function getHabitCompletionsByDateRange(userId: number, startDate: Date, endDate: Date) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select({
+    habitId: habitCompletions.habitId,
+    habitName: habits.name,
+    date: habitCompletions.date,
+    completed: habitCompletions.completed,
+    notes: habitCompletions.notes,
+  })
+    .from(habitCompletions)
+    .innerJoin(habits, eq(habits.id, habitCompletions.habitId))
+    .where(and(eq(habitCompletions.userId, userId), gte(habitCompletions.date, startDate), lte(habitCompletions.date, endDate)))
+    .orderBy(desc(habitCompletions.date));
+}
+
 // Mood history queries
 export async function getMoodHistoryByDateRange(userId: number, startDate: Date, endDate: Date) {
   const db = await getDb();
@@ -228,7 +824,8 @@ export async function getMoodHistoryByDate(userId: number, date: Date) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function upsertMoodHistory(userId: number, date: Date, mood: string, moodIntensity: number, notes?: string) {
+// recordedAt stamps updatedAt with when an offline change was made rather than when it arrived
+export async function upsertMoodHistory(userId: number, date: Date, mood: string, moodIntensity: number, notes?: string, recordedAt?: Date) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
@@ -242,9 +839,9 @@ export async function upsertMoodHistory(userId: number, date: Date, mood: string
   ).limit(1);
   
   if (existing.length > 0) {
-    return db.update(moodHistory).set({ mood: mood as any, moodIntensity, notes }).where(eq(moodHistory.id, existing[0].id));
+    return db.update(moodHistory).set({ mood: mood as any, moodIntensity, notes, updatedAt: recordedAt }).where(eq(moodHistory.id, existing[0].id));
   } else {
-    return db.insert(moodHistory).values({ userId, date, mood: mood as any, moodIntensity, notes });
+    return db.insert(moodHistory).values({ userId, date, mood: mood as any, moodIntensity, notes, updatedAt: recordedAt });
   }
 }
 
@@ -254,15 +851,36 @@ export async function getMoodInsightsByPeriod(userId: number, period: 'week' | '
   if (!db) return undefined;
   const result = await db.select().from(moodInsights).where(
     and(eq(moodInsights.userId, userId), eq(moodInsights.period, period), gte(moodInsights.periodStart, periodStart), lte(moodInsights.periodEnd, periodEnd))
-  ).limit(1);
+  ).orderBy(desc(moodInsights.updatedAt)).limit(1);
   
   return result.length > 0 ? result[0] : undefined;
 }
 
+// The insight generated for exactly this period, which regeneration replaces
+export async function getMoodInsightForPeriod(userId: number, period: 'week' | 'month' | 'year', periodStart: Date, periodEnd: Date) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(moodInsights).where(
+    and(eq(moodInsights.userId, userId), eq(moodInsights.period, period), eq(moodInsights.periodStart, periodStart), eq(moodInsights.periodEnd, periodEnd))
+  ).orderBy(desc(moodInsights.updatedAt)).limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function getMoodInsightById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(moodInsights).where(eq(moodInsights.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function createMoodInsight(insight: typeof moodInsights.$inferInsert) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  return db.insert(moodInsights).values(insight);
+  const [{ id }] = await db.insert(moodInsights).values(insight).$returningId();
+  const created = await getMoodInsightById(id);
+  if (!created) throw new Error("Failed to load created insight");
+  return created;
 }
 
 export async function updateMoodInsight(id: number, updates: Partial<typeof moodInsights.$inferInsert>) {
@@ -270,3 +888,54 @@ export async function updateMoodInsight(id: number, updates: Partial<typeof mood
   if (!db) throw new Error("Database not available");
   return db.update(moodInsights).set(updates).where(eq(moodInsights.id, id));
 }
+
+// Reflection assistant queries
+export async function getChatThreadsByUser(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(chatThreads).where(eq(chatThreads.userId, userId)).orderBy(desc(chatThreads.updatedAt), desc(chatThreads.id));
+}
+
+export async function getChatThreadById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(chatThreads).where(eq(chatThreads.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function createChatThread(thread: InsertChatThread) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [{ id }] = await db.insert(chatThreads).values(thread).$returningId();
+  const created = await getChatThreadById(id);
+  if (!created) throw new Error("Failed to load created chat thread");
+  return created;
+}
+
+// Moves the thread to the top of the list after a new exchange
+export async function touchChatThread(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(chatThreads).set({ updatedAt: new Date() }).where(eq(chatThreads.id, id));
+}
+
+export async function deleteChatThread(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(chatMessages).where(eq(chatMessages.threadId, id));
+  await db.delete(chatThreads).where(eq(chatThreads.id, id));
+}
+
+export async function getChatMessages(threadId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db.select().from(chatMessages).where(eq(chatMessages.threadId, threadId)).orderBy(chatMessages.id);
+}
+
+export async function createChatMessages(messages: InsertChatMessage[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (messages.length === 0) return [];
+  const ids = (await db.insert(chatMessages).values(messages).$returningId()).map(row => row.id);
+  return db.select().from(chatMessages).where(inArray(chatMessages.id, ids)).orderBy(chatMessages.id);
+}
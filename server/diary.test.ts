@@ -1,35 +1,6 @@
 import { describe, expect, it, beforeEach } from "vitest";
 import { appRouter } from "./routers";
-import type { TrpcContext } from "./_core/context";
-
-type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
-
-function createAuthContext(userId: number = 1): { ctx: TrpcContext } {
-  const user: AuthenticatedUser = {
-    id: userId,
-    openId: `user-${userId}`,
-    email: `user${userId}@example.com`,
-    name: `Test User ${userId}`,
-    loginMethod: "manus",
-    role: "user",
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    lastSignedIn: new Date(),
-  };
-
-  const ctx: TrpcContext = {
-    user,
-    req: {
-      protocol: "https",
-      headers: {},
-    } as TrpcContext["req"],
-    res: {
-      clearCookie: () => {},
-    } as TrpcContext["res"],
-  };
-
-  return { ctx };
-}
+import { createAuthContext } from "./test/context";
 
 describe("Diary Procedures", () => {
   it("should create a diary entry", async () => {
@@ -46,12 +17,38 @@ describe("Diary Procedures", () => {
     expect(result).toBeDefined();
   });
 
+  it("should reject an out-of-range mood intensity", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(
+      caller.diary.create({ date: new Date(), mood: "good", moodIntensity: 11 })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
   it("should retrieve diary entries", async () => {
     const { ctx } = createAuthContext();
     const caller = appRouter.createCaller(ctx);
 
-    const result = await caller.diary.list({ limit: 50, offset: 0 });
-    expect(Array.isArray(result)).toBe(true);
+    const result = await caller.diary.list({ limit: 50 });
+    expect(Array.isArray(result.items)).toBe(true);
+  });
+
+  it("should filter diary entries by date range, mood and media", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+    const to = new Date();
+    const from = new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const result = await caller.diary.list({ limit: 10, from, to, mood: "good", hasMedia: false });
+    expect(result.items.every(entry => entry.mood === "good" && entry.date >= from && entry.date <= to)).toBe(true);
+  });
+
+  it("should cap diary page size", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.diary.list({ limit: 1000 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
   });
 
   it("should get diary entry by date", async () => {
@@ -62,6 +59,45 @@ describe("Diary Procedures", () => {
     const result = await caller.diary.getByDate({ date: today });
     expect(result === undefined || result !== undefined).toBe(true);
   });
+
+  it("should list all entries for a day", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    const result = await caller.diary.listByDate({ date: new Date() });
+    expect(Array.isArray(result)).toBe(true);
+  });
+
+  it("should list entries in the trash", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    const result = await caller.diary.listTrash();
+    expect(Array.isArray(result)).toBe(true);
+  });
+
+  it("should reject deleting an entry that does not exist", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.diary.delete({ id: -1 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("should reject updating an entry that does not exist", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(
+      caller.diary.update({ id: -1, title: "Edited", date: new Date(2024, 0, 1) })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("should reject restoring a revision that does not exist", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.diary.restoreRevision({ id: -1 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
 });
 
 describe("Mood Procedures", () => {
@@ -178,12 +214,29 @@ describe("Media Procedures", () => {
     expect(Array.isArray(result)).toBe(true);
   });
 
-  it("should list media by diary entry", async () => {
+  it("should page the media gallery", async () => {
     const { ctx } = createAuthContext();
     const caller = appRouter.createCaller(ctx);
 
-    const result = await caller.media.listByEntry({ diaryEntryId: 1 });
-    expect(Array.isArray(result)).toBe(true);
+    const result = await caller.media.listGallery({ limit: 30, fileType: "image" });
+    expect(Array.isArray(result.items)).toBe(true);
+    expect(result.nextCursor === null || result.items.length === 30).toBe(true);
+  });
+
+  it("should reject oversized gallery pages", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.media.listGallery({ limit: 500 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("should reject attaching media to an entry that does not exist", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(
+      caller.media.attachToEntry({ mediaIds: [1], diaryEntryId: -1 })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
   });
 });
 
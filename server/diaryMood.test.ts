@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAuthContext } from "./test/context";
+import { diaryEntry } from "./test/fixtures";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getDiaryEntryById: vi.fn(),
+    createDiaryEntry: vi.fn(),
+    updateDiaryEntry: vi.fn(async () => true),
+    setDiaryEntryTags: vi.fn(),
+    deleteDiaryDraft: vi.fn(),
+    upsertMoodHistory: vi.fn(),
+  };
+});
+
+import * as db from "./db";
+import { appRouter } from "./routers";
+
+const day = new Date(2026, 1, 10);
+
+const entry = diaryEntry({
+  title: "Evening reflection",
+  content: "Calm and content.",
+  mood: "good",
+  moodIntensity: 6,
+  date: day,
+  createdAt: day,
+  updatedAt: day,
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(db.createDiaryEntry).mockResolvedValue(entry);
+  vi.mocked(db.getDiaryEntryById).mockResolvedValue(entry);
+});
+
+describe("diary mood sync", () => {
+  it("records the entry's mood as the day's mood", async () => {
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    const result = await caller.diary.create({ title: "Evening reflection", content: "Calm and content.", date: day, mood: "good", moodIntensity: 6 });
+    expect(result).toBe(entry);
+    expect(db.createDiaryEntry).toHaveBeenCalledWith(expect.objectContaining({ userId: 1, mood: "good", moodIntensity: 6 }));
+    expect(db.upsertMoodHistory).toHaveBeenCalledWith(1, day, "good", 6, undefined, undefined);
+  });
+
+  it("defaults the intensity and leaves mood history alone without a mood", async () => {
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await caller.diary.create({ date: day, mood: "sad" });
+    expect(db.upsertMoodHistory).toHaveBeenCalledWith(1, day, "sad", 5, undefined, undefined);
+
+    vi.mocked(db.upsertMoodHistory).mockClear();
+    await caller.diary.create({ date: day, content: "No mood today" });
+    expect(db.upsertMoodHistory).not.toHaveBeenCalled();
+  });
+
+  it("keeps the entry's date and intensity when only the mood changes", async () => {
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await caller.diary.update({ id: 10, mood: "excellent" });
+    expect(db.upsertMoodHistory).toHaveBeenCalledWith(1, day, "excellent", 6);
+  });
+});
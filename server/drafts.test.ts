@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAuthContext } from "./test/context";
+import { diaryEntry } from "./test/fixtures";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getDiaryEntryById: vi.fn(),
+    updateDiaryEntry: vi.fn(),
+    getDiaryDraft: vi.fn(),
+    saveDiaryDraft: vi.fn(),
+    deleteDiaryDraft: vi.fn(),
+  };
+});
+
+import type { DiaryDraft } from "../drizzle/schema";
+import * as db from "./db";
+import { appRouter } from "./routers";
+
+const savedAt = new Date("2026-03-01T10:00:00Z");
+
+const entry = diaryEntry({
+  title: "Morning",
+  content: "Coffee first",
+  contentFormat: "markdown",
+  date: new Date("2026-03-01T08:00:00Z"),
+  createdAt: savedAt,
+  updatedAt: savedAt,
+  version: 4,
+});
+
+const draft: DiaryDraft = {
+  id: 5,
+  userId: 1,
+  diaryEntryId: null,
+  title: "Half written",
+  content: "So far",
+  contentFormat: "markdown",
+  date: new Date("2026-03-01T08:00:00Z"),
+  mood: null,
+  moodIntensity: null,
+  mediaIds: [],
+  entryVersion: null,
+  version: 3,
+  entryKey: 0,
+  createdAt: savedAt,
+  updatedAt: savedAt,
+};
+
+const draftInput = {
+  diaryEntryId: null,
+  title: "Half written",
+  content: "So far, and more",
+  contentFormat: "markdown" as const,
+  date: new Date("2026-03-01T08:00:00Z"),
+  mood: null,
+  moodIntensity: null,
+  mediaIds: [],
+  entryVersion: null,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(db.getDiaryEntryById).mockImplementation(async id => (id === entry.id ? entry : undefined));
+  vi.mocked(db.getDiaryDraft).mockResolvedValue(draft);
+  vi.mocked(db.saveDiaryDraft).mockImplementation(async saved => ({ ...draft, ...saved, version: draft.version + 1 }));
+  vi.mocked(db.updateDiaryEntry).mockResolvedValue(true);
+});
+
+describe("drafts.save", () => {
+  it("saves over the draft version this device last saw and hands out the next one", async () => {
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    const saved = await caller.drafts.save({ ...draftInput, expectedVersion: 3 });
+    expect(db.saveDiaryDraft).toHaveBeenCalledWith(expect.objectContaining({ userId: 1, content: "So far, and more" }), 3);
+    expect(saved.version).toBe(4);
+  });
+
+  it("rejects a save based on an older draft version", async () => {
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.drafts.save({ ...draftInput, expectedVersion: 2 })).rejects.toMatchObject({ code: "CONFLICT" });
+    await expect(caller.drafts.save({ ...draftInput, expectedVersion: null })).rejects.toMatchObject({ code: "CONFLICT" });
+    expect(db.saveDiaryDraft).not.toHaveBeenCalled();
+  });
+
+  it("rejects a save that another device got in before", async () => {
+    vi.mocked(db.saveDiaryDraft).mockResolvedValue(undefined);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.drafts.save({ ...draftInput, expectedVersion: 3 })).rejects.toMatchObject({ code: "CONFLICT" });
+  });
+
+  it("starts a new draft when the one this device saw was discarded", async () => {
+    vi.mocked(db.getDiaryDraft).mockResolvedValue(undefined);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await caller.drafts.save({ ...draftInput, expectedVersion: 3 });
+    expect(db.saveDiaryDraft).toHaveBeenCalledWith(expect.objectContaining({ userId: 1 }), null);
+  });
+
+  it("rejects drafts for another user's entry", async () => {
+    const caller = appRouter.createCaller(createAuthContext(2).ctx);
+
+    await expect(
+      caller.drafts.save({ ...draftInput, diaryEntryId: entry.id, expectedVersion: null })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
+
+describe("diary.update concurrency", () => {
+  it("rejects an update that lost to a save of the same version", async () => {
+    vi.mocked(db.updateDiaryEntry).mockResolvedValue(false);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.diary.update({ id: entry.id, title: "Stale", expectedVersion: 3 })).rejects.toMatchObject({ code: "CONFLICT" });
+    expect(db.deleteDiaryDraft).not.toHaveBeenCalled();
+  });
+
+  it("saves and clears the entry's draft when the version matches", async () => {
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await caller.diary.update({ id: entry.id, title: "Fresh", expectedVersion: 4 });
+    expect(db.updateDiaryEntry).toHaveBeenCalledWith(entry.id, expect.objectContaining({ title: "Fresh" }), { expectedVersion: 4 });
+    expect(db.deleteDiaryDraft).toHaveBeenCalledWith(1, entry.id);
+  });
+});
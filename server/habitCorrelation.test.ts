@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { compareMoods, correlateHabitsWithMood } from "./habitCorrelation";
+
+const at = (day: number) => new Date(2026, 2, day);
+
+function moodsFor(intensities: Record<number, number>) {
+  return Object.entries(intensities).map(([day, moodIntensity]) => ({ date: at(Number(day)), moodIntensity }));
+}
+
+function doneOn(habitId: number, days: number[]) {
+  return days.map(day => ({ habitId, date: at(day), completed: 1 }));
+}
+
+describe("compareMoods", () => {
+  it("reports the mean difference and Cohen's d", () => {
+    expect(compareMoods([8, 9, 7], [4, 5, 6])).toEqual({
+      withHabit: 8,
+      withoutHabit: 5,
+      daysWith: 3,
+      daysWithout: 3,
+      difference: 3,
+      effectSize: 3,
+    });
+  });
+
+  it("leaves the effect empty when one side has no days or no spread", () => {
+    expect(compareMoods([7, 8], [])).toMatchObject({ withHabit: 7.5, withoutHabit: null, difference: null, effectSize: null });
+    expect(compareMoods([7, 7], [5, 5])).toMatchObject({ difference: 2, effectSize: null });
+  });
+});
+
+describe("correlateHabitsWithMood", () => {
+  const walk = { id: 1, name: "Walk", color: "#10b981", createdAt: at(1) };
+  const moods = moodsFor({ 1: 4, 2: 8, 3: 5, 4: 9, 5: 6, 6: 8 });
+
+  it("splits mood days by whether the habit was done that day and the day before", () => {
+    const [result] = correlateHabitsWithMood([walk], doneOn(1, [2, 4, 6]), moods);
+
+    expect(result.sameDay).toMatchObject({ withHabit: 8.33, withoutHabit: 5, daysWith: 3, daysWithout: 3 });
+    // Mood on the 3rd and 5th follows a walk; the 1st has no day before it since the habit was created
+    expect(result.nextDay).toMatchObject({ withHabit: 5.5, withoutHabit: 8.33, daysWith: 2, daysWithout: 3 });
+    expect(result.confidence).toBe("low");
+  });
+
+  it("ignores days before the habit existed and unchecked check-ins", () => {
+    const late = { ...walk, createdAt: new Date(2026, 2, 4, 18, 30) };
+    const completions = [...doneOn(1, [4]), { habitId: 1, date: at(5), completed: 0 }];
+    const [result] = correlateHabitsWithMood([late], completions, moods);
+
+    expect(result.sameDay).toMatchObject({ daysWith: 1, daysWithout: 2 });
+  });
+
+  it("matches check-ins and moods made at any time of the same day", () => {
+    const created = { ...walk, createdAt: new Date(2026, 2, 2, 20, 0) };
+    const completions = [
+      { habitId: 1, date: new Date(2026, 2, 2, 7, 15), completed: 1 },
+      { habitId: 1, date: new Date(2026, 2, 4, 23, 45), completed: 1 },
+    ];
+    const evenings = [2, 3, 4, 5].map(day => ({ date: new Date(2026, 2, day, 21, 30), moodIntensity: day * 2 }));
+    const [result] = correlateHabitsWithMood([created], completions, evenings);
+
+    // The 2nd counts from its morning walk although the habit was only added that evening
+    expect(result.sameDay).toMatchObject({ withHabit: 6, withoutHabit: 8, daysWith: 2, daysWithout: 2 });
+    expect(result.nextDay).toMatchObject({ withHabit: 8, withoutHabit: 8, daysWith: 2, daysWithout: 1 });
+  });
+
+  it("ranks habits by the strength of their effect, unmeasurable ones last", () => {
+    const read = { id: 2, name: "Read", color: null, createdAt: at(1) };
+    const stretch = { id: 3, name: "Stretch", color: null, createdAt: at(1) };
+    const completions = [...doneOn(1, [2, 4, 6]), ...doneOn(2, [1, 3]), ...doneOn(3, [1, 2, 3, 4, 5, 6])];
+
+    expect(correlateHabitsWithMood([stretch, read, walk], completions, moods).map(c => c.name)).toEqual(["Walk", "Read", "Stretch"]);
+  });
+
+  it("grows confidence with the days on the smaller side", () => {
+    const month = moodsFor(Object.fromEntries(Array.from({ length: 30 }, (_, i) => [i + 1, (i % 5) + 3])));
+    const everyOther = doneOn(1, Array.from({ length: 15 }, (_, i) => i * 2 + 1));
+    const weekly = doneOn(1, [1, 8, 15, 22, 29]);
+
+    expect(correlateHabitsWithMood([walk], everyOther, month)[0].confidence).toBe("high");
+    expect(correlateHabitsWithMood([walk], weekly, month)[0].confidence).toBe("medium");
+  });
+});
@@ -0,0 +1,102 @@
+import type { Habit, HabitCompletion, HabitCorrelation, HabitMoodEffect, MoodHistory } from "../drizzle/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days needed on the smaller side of a comparison for each confidence level
+const HIGH_CONFIDENCE_DAYS = 14;
+const MEDIUM_CONFIDENCE_DAYS = 5;
+
+// Check-ins carry the time they were made, so count whole local calendar days, like the date-range queries
+function dayNumber(date: Date) {
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function mean(values: number[]) {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function variance(values: number[], average: number) {
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Compares mood intensity on days with and without the habit. The effect size is
+ * Cohen's d with a pooled standard deviation, left null while there is too little
+ * data for one or the spread is zero.
+ */
+export function compareMoods(withHabit: number[], withoutHabit: number[]): HabitMoodEffect {
+  const effect: HabitMoodEffect = {
+    withHabit: withHabit.length > 0 ? round(mean(withHabit)) : null,
+    withoutHabit: withoutHabit.length > 0 ? round(mean(withoutHabit)) : null,
+    daysWith: withHabit.length,
+    daysWithout: withoutHabit.length,
+    difference: null,
+    effectSize: null,
+  };
+  if (withHabit.length === 0 || withoutHabit.length === 0) return effect;
+
+  const meanWith = mean(withHabit);
+  const meanWithout = mean(withoutHabit);
+  effect.difference = round(meanWith - meanWithout);
+
+  const degrees = withHabit.length + withoutHabit.length - 2;
+  if (degrees > 0) {
+    const pooled =
+      ((withHabit.length > 1 ? (withHabit.length - 1) * variance(withHabit, meanWith) : 0) +
+        (withoutHabit.length > 1 ? (withoutHabit.length - 1) * variance(withoutHabit, meanWithout) : 0)) /
+      degrees;
+    if (pooled > 0) effect.effectSize = round((meanWith - meanWithout) / Math.sqrt(pooled));
+  }
+  return effect;
+}
+
+function confidenceFor(effect: HabitMoodEffect): HabitCorrelation["confidence"] {
+  const smaller = Math.min(effect.daysWith, effect.daysWithout);
+  return smaller >= HIGH_CONFIDENCE_DAYS ? "high" : smaller >= MEDIUM_CONFIDENCE_DAYS ? "medium" : "low";
+}
+
+/**
+ * Joins habit check-ins with mood check-ins by day. Every day with a mood since
+ * the habit was created counts towards "with" or "without" it; a day without a
+ * completed check-in counts as without. The next-day comparison pairs the habit
+ * on one day with the mood on the day after. Strongest effects first.
+ */
+export function correlateHabitsWithMood(
+  habits: Pick<Habit, "id" | "name" | "color" | "createdAt">[],
+  completions: Pick<HabitCompletion, "habitId" | "date" | "completed">[],
+  moods: Pick<MoodHistory, "date" | "moodIntensity">[]
+): HabitCorrelation[] {
+  const correlations = habits.map(habit => {
+    const createdDay = dayNumber(habit.createdAt);
+    const doneDays = new Set(
+      completions.filter(c => c.habitId === habit.id && c.completed === 1).map(c => dayNumber(c.date))
+    );
+
+    const sameDay: [number[], number[]] = [[], []];
+    const nextDay: [number[], number[]] = [[], []];
+    for (const mood of moods) {
+      const day = dayNumber(mood.date);
+      // Only days on which the habit already existed: the mood's day, or the day before it
+      if (day >= createdDay) sameDay[doneDays.has(day) ? 0 : 1].push(mood.moodIntensity);
+      if (day > createdDay) nextDay[doneDays.has(day - 1) ? 0 : 1].push(mood.moodIntensity);
+    }
+
+    const sameDayEffect = compareMoods(...sameDay);
+    return {
+      habitId: habit.id,
+      name: habit.name,
+      color: habit.color,
+      sameDay: sameDayEffect,
+      nextDay: compareMoods(...nextDay),
+      confidence: confidenceFor(sameDayEffect),
+    };
+  });
+
+  // Habits without a measurable effect go last
+  const strength = (correlation: HabitCorrelation) =>
+    correlation.sameDay.effectSize === null ? -1 : Math.abs(correlation.sameDay.effectSize);
+  return correlations.sort((a, b) => strength(b) - strength(a) || a.habitId - b.habitId);
+}
@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAuthContext } from "./test/context";
+import { diaryEntry } from "./test/fixtures";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getMoodHistoryByDateRange: vi.fn(),
+    getDiaryEntriesByDateRange: vi.fn(),
+    getHabitsByUser: vi.fn(),
+    getHabitCompletionsByDateRange: vi.fn(),
+    getMoodInsightForPeriod: vi.fn(),
+    getMoodInsightById: vi.fn(),
+    createMoodInsight: vi.fn(async insight => ({ ...insight, id: 5, generatedAt: new Date(), updatedAt: new Date() })),
+    updateMoodInsight: vi.fn(),
+  };
+});
+
+vi.mock("./_core/llm", () => ({ invokeLLM: vi.fn() }));
+
+import type { Habit, MoodHistory, MoodInsight } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import { invokeLLM, type InvokeResult } from "./_core/llm";
+import * as db from "./db";
+import { hashPeriodData } from "./insights";
+import { appRouter } from "./routers";
+
+const periodStart = new Date("2026-03-01T00:00:00Z");
+const periodEnd = new Date("2026-03-08T23:59:59.999Z");
+const storedEnd = new Date("2026-03-08T23:59:59Z");
+const at = (day: number) => new Date(Date.UTC(2026, 2, day));
+
+function makeMood(day: number, mood: MoodHistory["mood"], moodIntensity: number): MoodHistory {
+  return { id: day, userId: 1, date: at(day), mood, moodIntensity, notes: null, createdAt: at(day), updatedAt: at(day) };
+}
+
+function makeEntry(id: number, day: number, title: string) {
+  return diaryEntry({ id, title, content: `Notes from day ${day}`, date: at(day), createdAt: at(day), updatedAt: at(day) });
+}
+
+const habit: Habit = { id: 9, userId: 1, name: "Walk", description: null, color: null, icon: null, createdAt: at(1), updatedAt: at(1), isActive: 1 };
+const moods = [makeMood(6, "sad", 3), makeMood(4, "good", 7), makeMood(3, "excellent", 9), makeMood(2, "neutral", 5)];
+const entries = [makeEntry(21, 3, "Lake day"), makeEntry(22, 6, "Rough one")];
+const completions = [2, 3, 4].map(day => ({ habitId: 9, habitName: "Walk", date: at(day), completed: 1, notes: null }));
+
+function llmReply(content: object): InvokeResult {
+  return {
+    id: "r1",
+    created: 0,
+    model: "test",
+    choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: JSON.stringify(content) } }],
+  };
+}
+
+function savedInsight(overrides: Partial<MoodInsight>): MoodInsight {
+  return {
+    id: 5,
+    userId: 1,
+    period: "week",
+    periodStart,
+    periodEnd: storedEnd,
+    averageMoodScore: "6.00",
+    dominantMood: "sad",
+    moodDistribution: {},
+    topHabitsCorrelation: [],
+    insights: "Earlier summary",
+    narrative: { summary: "Earlier summary", highlights: [], focusAreas: [], notableEntries: [] },
+    narrativeSource: "llm",
+    dataHash: null,
+    generatedAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const currentHash = () =>
+  hashPeriodData({ period: "week", periodStart, periodEnd: storedEnd, moods, entries, habits: [habit], completions });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  ENV.forgeApiKey = "test-key";
+  vi.mocked(db.getMoodHistoryByDateRange).mockResolvedValue(moods);
+  vi.mocked(db.getDiaryEntriesByDateRange).mockResolvedValue(entries);
+  vi.mocked(db.getHabitsByUser).mockResolvedValue([habit]);
+  vi.mocked(db.getHabitCompletionsByDateRange).mockResolvedValue(completions);
+  vi.mocked(db.getMoodInsightForPeriod).mockResolvedValue(undefined);
+});
+
+describe("insights.generateInsights", () => {
+  it("stores the LLM narrative, keeping only notable entries from the period", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(llmReply({
+      summary: "A week that started bright and ended heavier.",
+      highlights: ["The lake on the 3rd"],
+      focusAreas: ["Rest after long days"],
+      notableEntries: [{ entryId: 21, reason: "Pure joy" }, { entryId: 404, reason: "Invented" }],
+    }));
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    const insight = await caller.insights.generateInsights({ period: "week", periodStart, periodEnd });
+    expect(insight).toMatchObject({
+      periodEnd: storedEnd,
+      narrativeSource: "llm",
+      dataHash: currentHash(),
+      insights: "A week that started bright and ended heavier.",
+      narrative: { notableEntries: [{ entryId: 21, date: "2026-03-03", title: "Lake day", reason: "Pure joy" }] },
+      topHabitsCorrelation: [{ habitId: 9, sameDay: { withHabit: 7, withoutHabit: 3, daysWith: 3, daysWithout: 1 }, confidence: "low" }],
+    });
+    const [{ messages }] = vi.mocked(invokeLLM).mock.calls[0];
+    expect(JSON.stringify(messages)).toContain("[21] 2026-03-03");
+    expect(JSON.stringify(messages)).toContain("Walk: done on 3 of 8 days; mood 7/10 on those days vs 3/10 without");
+    // Check-ins from the day before the period count towards next-day mood
+    const [, completionsFrom] = vi.mocked(db.getHabitCompletionsByDateRange).mock.calls[0];
+    expect(completionsFrom).toEqual(new Date("2026-02-28T00:00:00Z"));
+  });
+
+  it("reuses a narrative while the period's data is unchanged", async () => {
+    const cached = savedInsight({ dataHash: currentHash() });
+    vi.mocked(db.getMoodInsightForPeriod).mockResolvedValue(cached);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.insights.generateInsights({ period: "week", periodStart, periodEnd })).resolves.toEqual(cached);
+    expect(db.getMoodInsightForPeriod).toHaveBeenCalledWith(1, "week", periodStart, storedEnd);
+    expect(invokeLLM).not.toHaveBeenCalled();
+  });
+
+  it("replaces the period's insight when the data changed", async () => {
+    vi.mocked(db.getMoodInsightForPeriod).mockResolvedValue(savedInsight({ dataHash: "stale" }));
+    vi.mocked(db.getMoodInsightById).mockResolvedValue(savedInsight({ dataHash: currentHash() }));
+    vi.mocked(invokeLLM).mockResolvedValue(llmReply({ summary: "Fresh", highlights: [], focusAreas: [], notableEntries: [] }));
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await caller.insights.generateInsights({ period: "week", periodStart, periodEnd });
+    expect(db.updateMoodInsight).toHaveBeenCalledWith(5, expect.objectContaining({ insights: "Fresh", dataHash: currentHash() }));
+    expect(db.createMoodInsight).not.toHaveBeenCalled();
+  });
+
+  it("writes a deterministic fallback without an LLM key", async () => {
+    ENV.forgeApiKey = "";
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    const first = await caller.insights.generateInsights({ period: "week", periodStart, periodEnd });
+    const second = await caller.insights.generateInsights({ period: "week", periodStart, periodEnd });
+    expect(invokeLLM).not.toHaveBeenCalled();
+    expect(second.narrative).toEqual(first.narrative);
+    expect(first).toMatchObject({
+      narrativeSource: "fallback",
+      narrative: {
+        summary: "During this week, you logged 4 moods, most often sad, with an average intensity of 6.00/10. Your mood dipped towards the end. You wrote 2 diary entries.",
+        highlights: ["Your brightest day was 2026-03-03 (excellent, 9/10).", "You kept up Walk on 3 of 8 days."],
+        focusAreas: ["Look back at 2026-03-06, your hardest day, and what surrounded it.", "Find a small way to fit Walk into more days."],
+        notableEntries: [
+          { entryId: 21, reason: "Written on your brightest day" },
+          { entryId: 22, reason: "Written on your hardest day" },
+        ],
+      },
+    });
+  });
+
+  it("falls back when the LLM fails, and retries once it may answer", async () => {
+    vi.mocked(invokeLLM).mockRejectedValueOnce(new Error("LLM invoke failed: 503"));
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    const insight = await caller.insights.generateInsights({ period: "week", periodStart, periodEnd });
+    expect(insight.narrativeSource).toBe("fallback");
+
+    vi.mocked(db.getMoodInsightForPeriod).mockResolvedValue(savedInsight({ narrativeSource: "fallback", dataHash: currentHash() }));
+    vi.mocked(invokeLLM).mockResolvedValue(llmReply({ summary: "Now from the model", highlights: [], focusAreas: [], notableEntries: [] }));
+    await caller.insights.generateInsights({ period: "week", periodStart, periodEnd });
+    expect(db.updateMoodInsight).toHaveBeenCalledWith(5, expect.objectContaining({ narrativeSource: "llm" }));
+  });
+
+  it("needs mood data for the period", async () => {
+    vi.mocked(db.getMoodHistoryByDateRange).mockResolvedValue([]);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.insights.generateInsights({ period: "week", periodStart, periodEnd })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+});
@@ -0,0 +1,299 @@
+import { createHash } from "crypto";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import type { DiaryEntry, Habit, InsertMoodInsight, InsightNarrative, MoodHistory, MoodInsight } from "../drizzle/schema";
+import * as db from "./db";
+import { correlateHabitsWithMood } from "./habitCorrelation";
+import { ENV } from "./_core/env";
+import { invokeLLM } from "./_core/llm";
+
+export type InsightPeriod = MoodInsight["period"];
+
+type HabitCompletionRow = Awaited<ReturnType<typeof db.getHabitCompletionsByDateRange>>[number];
+
+type PeriodData = {
+  period: InsightPeriod;
+  periodStart: Date;
+  periodEnd: Date;
+  moods: MoodHistory[];
+  entries: DiaryEntry[];
+  habits: Habit[];
+  // Starts a day before the period, for the habit-yesterday comparison
+  completions: HabitCompletionRow[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Bumped when the prompt, fallback or stored statistics change, so cached insights are regenerated
+const NARRATIVE_VERSION = 2;
+const PROMPT_ENTRIES = 30;
+const PROMPT_EXCERPT_CHARS = 500;
+
+const narrativeSchema = z.object({
+  summary: z.string().trim().min(1).max(2000),
+  highlights: z.array(z.string().trim().min(1).max(300)).max(5),
+  focusAreas: z.array(z.string().trim().min(1).max(300)).max(3),
+  notableEntries: z.array(z.object({ entryId: z.number().int(), reason: z.string().trim().min(1).max(300) })).max(3),
+});
+
+function formatDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// MySQL keeps whole seconds; flooring keeps the exact-period lookup matching what was stored
+function toStoredPrecision(date: Date) {
+  return new Date(Math.floor(date.getTime() / 1000) * 1000);
+}
+
+function average(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function excerpt(text: string | null, length: number) {
+  const normalized = (text ?? "").replace(/\s+/g, " ").trim();
+  return normalized.length > length ? `${normalized.slice(0, length)}…` : normalized;
+}
+
+export function summarizeMoods(moods: Pick<MoodHistory, "mood" | "moodIntensity">[]) {
+  const moodCounts: Record<string, number> = {};
+  moods.forEach(m => {
+    moodCounts[m.mood || "unknown"] = (moodCounts[m.mood || "unknown"] || 0) + 1;
+  });
+  return {
+    moodCounts,
+    averageMoodScore: average(moods.map(m => m.moodIntensity || 0)).toFixed(2),
+    dominantMood: Object.entries(moodCounts).sort(([, a], [, b]) => b - a)[0]?.[0] || "neutral",
+  };
+}
+
+// Days each active habit was done on during the period, most kept first
+function habitTallies(data: PeriodData) {
+  const periodDays = Math.max(1, Math.round((data.periodEnd.getTime() - data.periodStart.getTime()) / DAY_MS));
+  return data.habits
+    .map(habit => ({
+      habitId: habit.id,
+      name: habit.name,
+      days: new Set(
+        data.completions
+          .filter(c => c.habitId === habit.id && c.completed === 1 && c.date >= data.periodStart)
+          .map(c => formatDay(c.date))
+      ).size,
+      periodDays,
+    }))
+    .sort((a, b) => b.days - a.days);
+}
+
+/**
+ * Fingerprint of everything a narrative is written from. Entries are tracked by
+ * updatedAt, so editing one changes the hash without hashing its text.
+ */
+export function hashPeriodData(data: PeriodData) {
+  const payload = {
+    version: NARRATIVE_VERSION,
+    moods: data.moods.map(m => [m.id, m.date.getTime(), m.mood, m.moodIntensity, m.notes]),
+    entries: data.entries.map(e => [e.id, e.updatedAt.getTime()]),
+    habits: data.habits.map(h => [h.id, h.name]),
+    // Same-day check-ins of different habits come back in no particular order
+    completions: data.completions
+      .map(c => [c.habitId, c.date.getTime(), c.completed])
+      .sort((a, b) => a[0] - b[0] || a[1] - b[1]),
+  };
+  return createHash("sha256").update(JSON.stringify(payload)).digest("hex");
+}
+
+/**
+ * Narrative written from the numbers alone, used when no LLM is configured or
+ * it fails. The same data always gives the same text.
+ */
+export function fallbackNarrative(data: PeriodData): InsightNarrative {
+  const { averageMoodScore, dominantMood } = summarizeMoods(data.moods);
+  const chronological = [...data.moods].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let trend = "";
+  if (chronological.length >= 4) {
+    const half = Math.floor(chronological.length / 2);
+    const change = average(chronological.slice(half).map(m => m.moodIntensity)) - average(chronological.slice(0, half).map(m => m.moodIntensity));
+    trend = change >= 1 ? " Your mood lifted towards the end." : change <= -1 ? " Your mood dipped towards the end." : " Your mood held fairly steady throughout.";
+  }
+  const summary =
+    `During this ${data.period}, you logged ${data.moods.length} ${data.moods.length === 1 ? "mood" : "moods"}, ` +
+    `most often ${dominantMood}, with an average intensity of ${averageMoodScore}/10.${trend}` +
+    (data.entries.length > 0 ? ` You wrote ${data.entries.length} diary ${data.entries.length === 1 ? "entry" : "entries"}.` : "");
+
+  // Ties go to the earliest day, so the pick does not depend on query order
+  const byIntensity = [...chronological].sort((a, b) => b.moodIntensity - a.moodIntensity);
+  const best = byIntensity[0];
+  const worst = byIntensity[byIntensity.length - 1];
+  const tallies = habitTallies(data);
+  const kept = tallies.find(tally => tally.days > 0);
+  const slipping = [...tallies].reverse().find(tally => tally.days / tally.periodDays < 0.5);
+
+  const highlights: string[] = [];
+  if (best) highlights.push(`Your brightest day was ${formatDay(best.date)} (${best.mood}, ${best.moodIntensity}/10).`);
+  if (kept) highlights.push(`You kept up ${kept.name} on ${kept.days} of ${kept.periodDays} days.`);
+  const lift = correlateHabitsWithMood(data.habits, data.completions, data.moods)
+    .find(c => c.confidence !== "low" && (c.sameDay.difference ?? 0) >= 1);
+  if (lift) {
+    highlights.push(`Your mood averaged ${lift.sameDay.withHabit}/10 on days with ${lift.name}, against ${lift.sameDay.withoutHabit}/10 without.`);
+  }
+
+  const focusAreas: string[] = [];
+  if (worst && worst !== best && worst.moodIntensity <= 4) {
+    focusAreas.push(`Look back at ${formatDay(worst.date)}, your hardest day, and what surrounded it.`);
+  }
+  if (slipping) focusAreas.push(`Find a small way to fit ${slipping.name} into more days.`);
+  if (data.entries.length < data.moods.length / 2) focusAreas.push("Add a line or two of writing on the days you log a mood.");
+
+  const notableEntries: InsightNarrative["notableEntries"] = [];
+  for (const [day, reason] of [[best, "Written on your brightest day"], [worst, "Written on your hardest day"]] as const) {
+    const entry = day && data.entries.find(e => formatDay(e.date) === formatDay(day.date));
+    if (entry && !notableEntries.some(notable => notable.entryId === entry.id)) {
+      notableEntries.push({ entryId: entry.id, date: formatDay(entry.date), title: entry.title || "Untitled entry", reason });
+    }
+  }
+
+  return { summary, highlights, focusAreas: focusAreas.slice(0, 3), notableEntries };
+}
+
+function describePeriod(data: PeriodData) {
+  const moods = [...data.moods]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(m => `${formatDay(m.date)}: ${m.mood} (${m.moodIntensity}/10)${m.notes ? ` - ${excerpt(m.notes, 200)}` : ""}`);
+  const effects = new Map(correlateHabitsWithMood(data.habits, data.completions, data.moods).map(c => [c.habitId, c.sameDay]));
+  const habits = habitTallies(data).map(tally => {
+    const effect = effects.get(tally.habitId);
+    const moodLine = effect?.difference != null ? `; mood ${effect.withHabit}/10 on those days vs ${effect.withoutHabit}/10 without` : "";
+    return `${tally.name}: done on ${tally.days} of ${tally.periodDays} days${moodLine}`;
+  });
+  const entries = data.entries
+    .slice(-PROMPT_ENTRIES)
+    .map(e => `[${e.id}] ${formatDay(e.date)}${e.mood ? ` (${e.mood})` : ""} ${e.title || "Untitled"}: ${excerpt(e.content, PROMPT_EXCERPT_CHARS)}`);
+
+  return [
+    `Period: ${data.period}, ${formatDay(data.periodStart)} to ${formatDay(data.periodEnd)}`,
+    `Moods:\n${moods.join("\n")}`,
+    `Habits:\n${habits.join("\n") || "None tracked"}`,
+    `Diary entries (id in brackets):\n${entries.join("\n") || "None written"}`,
+  ].join("\n\n");
+}
+
+/**
+ * Asks the LLM for the period's narrative. Resolves null when the reply is
+ * unusable; notable entries outside the period are dropped.
+ */
+async function narrateWithLLM(data: PeriodData): Promise<InsightNarrative | null> {
+  const result = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content:
+          "You write a short reflection on a period of someone's personal diary, speaking to them as \"you\". " +
+          "The summary is three to five warm, specific sentences about how the period went. Highlights are two to four " +
+          "concrete good moments or patterns. Focus areas are one to three gentle, practical suggestions. Notable entries " +
+          "are up to three diary entries worth rereading, chosen only from the listed ids. Do not diagnose or moralise.",
+      },
+      { role: "user", content: describePeriod(data) },
+    ],
+    outputSchema: {
+      name: "insight_narrative",
+      strict: true,
+      schema: {
+        type: "object",
+        properties: {
+          summary: { type: "string" },
+          highlights: { type: "array", items: { type: "string" } },
+          focusAreas: { type: "array", items: { type: "string" } },
+          notableEntries: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { entryId: { type: "integer" }, reason: { type: "string" } },
+              required: ["entryId", "reason"],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ["summary", "highlights", "focusAreas", "notableEntries"],
+        additionalProperties: false,
+      },
+    },
+  });
+
+  const content = result.choices[0]?.message.content;
+  const raw = typeof content === "string" ? content : content?.map(part => (part.type === "text" ? part.text : "")).join("");
+  let parsed: z.infer<typeof narrativeSchema>;
+  try {
+    parsed = narrativeSchema.parse(JSON.parse(raw ?? ""));
+  } catch {
+    return null;
+  }
+
+  const entries = new Map(data.entries.map(entry => [entry.id, entry]));
+  return {
+    summary: parsed.summary,
+    highlights: parsed.highlights,
+    focusAreas: parsed.focusAreas,
+    notableEntries: parsed.notableEntries.flatMap(({ entryId, reason }) => {
+      const entry = entries.get(entryId);
+      return entry ? [{ entryId, date: formatDay(entry.date), title: entry.title || "Untitled entry", reason }] : [];
+    }),
+  };
+}
+
+/**
+ * Generates (or reuses) the insight for a period. An insight whose data hash
+ * still matches is returned as is, unless it is a fallback and the LLM can now
+ * be asked. Regenerating replaces the period's insight rather than adding one.
+ */
+export async function generateInsights(userId: number, period: InsightPeriod, periodStart: Date, periodEnd: Date) {
+  const start = toStoredPrecision(periodStart);
+  const end = toStoredPrecision(periodEnd);
+  const [moods, entries, habits, completions] = await Promise.all([
+    db.getMoodHistoryByDateRange(userId, start, periodEnd),
+    db.getDiaryEntriesByDateRange(userId, start, periodEnd),
+    db.getHabitsByUser(userId),
+    db.getHabitCompletionsByDateRange(userId, new Date(start.getTime() - DAY_MS), periodEnd),
+  ]);
+
+  if (moods.length === 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "No mood data available for this period" });
+  }
+
+  const data: PeriodData = { period, periodStart: start, periodEnd: end, moods, entries, habits, completions };
+  const dataHash = hashPeriodData(data);
+  const llmAvailable = !!ENV.forgeApiKey;
+  const existing = await db.getMoodInsightForPeriod(userId, period, start, end);
+  if (existing?.dataHash === dataHash && (existing.narrativeSource === "llm" || !llmAvailable)) {
+    return existing;
+  }
+
+  let narrative: InsightNarrative | null = null;
+  if (llmAvailable) {
+    try {
+      narrative = await narrateWithLLM(data);
+    } catch (error) {
+      console.error("[Insights] LLM narrative failed, using the fallback", error);
+    }
+  }
+  const narrativeSource = narrative ? "llm" : "fallback";
+  narrative ??= fallbackNarrative(data);
+
+  const { moodCounts, averageMoodScore, dominantMood } = summarizeMoods(moods);
+  const values = {
+    averageMoodScore,
+    dominantMood,
+    moodDistribution: moodCounts,
+    topHabitsCorrelation: correlateHabitsWithMood(habits, completions, moods),
+    insights: narrative.summary,
+    narrative,
+    narrativeSource,
+    dataHash,
+  } satisfies Partial<InsertMoodInsight>;
+
+  if (existing) {
+    await db.updateMoodInsight(existing.id, { ...values, generatedAt: new Date() });
+    const updated = await db.getMoodInsightById(existing.id);
+    if (!updated) throw new Error("Failed to load updated insight");
+    return updated;
+  }
+  return db.createMoodInsight({ userId, period, periodStart: start, periodEnd: end, ...values });
+}
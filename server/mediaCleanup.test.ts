@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm, stat, utimes, writeFile, mkdir } from "fs/promises";
+import os from "os";
+import path from "path";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getDb: vi.fn(async () => ({})),
+    getOrphanedMediaFiles: vi.fn(),
+    getExistingMediaFileKeys: vi.fn(),
+    getMediaFileById: vi.fn(),
+    deleteMediaFile: vi.fn(),
+    deleteMediaVariants: vi.fn(async () => []),
+  };
+});
+
+import type { MediaFile } from "../drizzle/schema";
+import * as db from "./db";
+import { sweepOrphanedMedia } from "./mediaCleanup";
+import { appRouter } from "./routers";
+import { setStorageDriver, StorageUnsupportedError } from "./storage";
+import { createLocalDriver } from "./storage/localDriver";
+import { createAuthContext } from "./test/context";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function makeMediaFile(id: number, fileKey: string, fileSize: number, overrides: Partial<MediaFile> = {}): MediaFile {
+  return {
+    id,
+    userId: 1,
+    diaryEntryId: null,
+    fileKey,
+    fileUrl: `/api/storage/${fileKey}`,
+    fileType: "image",
+    mimeType: "image/jpeg",
+    fileName: fileKey.split("/").pop() ?? null,
+    fileSize,
+    width: null,
+    height: null,
+    takenAt: null,
+    latitude: null,
+    longitude: null,
+    camera: null,
+    uploadedAt: new Date(Date.now() - 10 * DAY_MS),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+describe("sweepOrphanedMedia", () => {
+  let rootDir: string;
+
+  const putFile = async (key: string, contents: string, ageDays: number) => {
+    const filePath = path.join(rootDir, key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, contents);
+    const modified = new Date(Date.now() - ageDays * DAY_MS);
+    await utimes(filePath, modified, modified);
+  };
+
+  const exists = (key: string) => stat(path.join(rootDir, key)).then(() => true, () => false);
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    rootDir = await mkdtemp(path.join(os.tmpdir(), "sweep-test-"));
+    setStorageDriver(createLocalDriver(rootDir));
+  });
+
+  afterEach(async () => {
+    setStorageDriver(null);
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("removes unattached uploads and untracked objects and reports reclaimed bytes", async () => {
+    await putFile("1/media/draft.jpg", "12345", 10);
+    await putFile("1/media/kept.jpg", "123", 10);
+    await putFile("1/media/stray.jpg", "1234567", 10);
+    await putFile("1/media/fresh.jpg", "12", 1);
+    await putFile("generated/art.png", "1234", 10);
+
+    vi.mocked(db.getOrphanedMediaFiles).mockResolvedValue([makeMediaFile(5, "1/media/draft.jpg", 5)]);
+    vi.mocked(db.getExistingMediaFileKeys).mockImplementation(async keys => new Set(keys.filter(k => k === "1/media/kept.jpg")));
+
+    const report = await sweepOrphanedMedia(7);
+
+    expect(db.deleteMediaFile).toHaveBeenCalledWith(5);
+    expect(report).toEqual({ deletedRows: 1, deletedObjects: 1, reclaimedBytes: 12 });
+    expect(await exists("1/media/draft.jpg")).toBe(false);
+    expect(await exists("1/media/stray.jpg")).toBe(false);
+    expect(await exists("1/media/kept.jpg")).toBe(true);
+    expect(await exists("1/media/fresh.jpg")).toBe(true);
+    expect(await exists("generated/art.png")).toBe(true);
+  });
+
+  it("does nothing when the database is unavailable", async () => {
+    await putFile("1/media/stray.jpg", "1234567", 10);
+    vi.mocked(db.getDb).mockResolvedValueOnce(null);
+
+    const report = await sweepOrphanedMedia(7);
+
+    expect(report).toEqual({ deletedRows: 0, deletedObjects: 0, reclaimedBytes: 0 });
+    expect(await exists("1/media/stray.jpg")).toBe(true);
+  });
+
+  it("keeps rows and reports nothing reclaimed when storage cannot delete", async () => {
+    await putFile("1/media/draft.jpg", "12345", 10);
+    setStorageDriver({
+      ...createLocalDriver(rootDir),
+      delete: async () => {
+        throw new StorageUnsupportedError("test", "delete objects");
+      },
+    });
+    vi.mocked(db.getOrphanedMediaFiles).mockResolvedValue([makeMediaFile(5, "1/media/draft.jpg", 5)]);
+
+    const report = await sweepOrphanedMedia(7);
+
+    expect(report).toEqual({ deletedRows: 0, deletedObjects: 0, reclaimedBytes: 0 });
+    expect(db.deleteMediaFile).not.toHaveBeenCalled();
+  });
+
+  it("keeps sweeping untracked objects past one that fails to delete", async () => {
+    await putFile("1/media/locked.jpg", "123", 10);
+    await putFile("1/media/stray.jpg", "1234567", 10);
+    const driver = createLocalDriver(rootDir);
+    setStorageDriver({
+      ...driver,
+      delete: async key => {
+        if (key === "1/media/locked.jpg") throw new Error("Access denied");
+        await driver.delete(key);
+      },
+    });
+    vi.mocked(db.getOrphanedMediaFiles).mockResolvedValue([]);
+    vi.mocked(db.getExistingMediaFileKeys).mockResolvedValue(new Set());
+
+    const report = await sweepOrphanedMedia(7);
+
+    expect(report).toEqual({ deletedRows: 0, deletedObjects: 1, reclaimedBytes: 7 });
+    expect(await exists("1/media/locked.jpg")).toBe(true);
+    expect(await exists("1/media/stray.jpg")).toBe(false);
+  });
+});
+
+describe("media.delete", () => {
+  it("leaves media of a trashed entry alone", async () => {
+    vi.mocked(db.getMediaFileById).mockResolvedValue(makeMediaFile(6, "1/media/beach.jpg", 5, { diaryEntryId: 10, deletedAt: new Date() }));
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.media.delete({ id: 6 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(db.deleteMediaFile).not.toHaveBeenCalled();
+  });
+});
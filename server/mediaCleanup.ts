@@ -0,0 +1,114 @@
+import type { MediaFile } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import * as db from "./db";
+import { StorageUnsupportedError, storageDelete, storageList, type StoredObjectInfo } from "./storage";
+
+export type MediaSweepReport = {
+  deletedRows: number;
+  deletedObjects: number;
+  reclaimedBytes: number;
+};
+
+const SWEEP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const KEY_BATCH_SIZE = 100;
+// Only user uploads are tracked in media_files; other prefixes (e.g. generated/) are left alone
+const MEDIA_KEY_PATTERN = /^\d+\/media\//;
+
+async function deleteStoredObjects(fileKeys: string[]) {
+  for (const fileKey of fileKeys) {
+    try {
+      await storageDelete(fileKey);
+    } catch (error) {
+      console.error(`[Media] Failed to delete stored object ${fileKey}`, error);
+    }
+  }
+}
+
+/**
+ * Deletes the stored objects behind media rows that were already removed,
+ * along with their thumbnail/poster variants.
+ * Failures are logged rather than thrown so the database change still stands.
+ */
+export async function deleteMediaObjects(files: Pick<MediaFile, "id" | "fileKey">[]) {
+  if (files.length === 0) return;
+  const variants = await db.deleteMediaVariants(files.map(file => file.id));
+  await deleteStoredObjects([...files, ...variants].map(file => file.fileKey));
+}
+
+/**
+ * Removes uploads that never got attached to an entry, plus stored objects
+ * that have no media_files row, once they are older than the retention window.
+ */
+export async function sweepOrphanedMedia(olderThanDays: number, now = new Date()): Promise<MediaSweepReport> {
+  const report: MediaSweepReport = { deletedRows: 0, deletedObjects: 0, reclaimedBytes: 0 };
+
+  // Without a database every object would look orphaned
+  if (!(await db.getDb())) {
+    console.warn("[Media] Skipping orphan sweep: database not available");
+    return report;
+  }
+
+  const cutoff = new Date(now.getTime() - olderThanDays * 24 * 60 * 60 * 1000);
+
+  for (const file of await db.getOrphanedMediaFiles(cutoff)) {
+    try {
+      await storageDelete(file.fileKey);
+    } catch (error) {
+      // Nothing else could be deleted either, and the rows must stay while their objects do
+      if (error instanceof StorageUnsupportedError) {
+        console.warn(`[Media] Skipping orphan sweep: ${error.message}`);
+        return report;
+      }
+      console.error(`[Media] Failed to delete stored object ${file.fileKey}`, error);
+      continue;
+    }
+    await db.deleteMediaFile(file.id);
+    report.deletedRows++;
+    report.reclaimedBytes += file.fileSize ?? 0;
+
+    const variants = await db.deleteMediaVariants([file.id]);
+    await deleteStoredObjects(variants.map(variant => variant.fileKey));
+    report.reclaimedBytes += variants.reduce((total, variant) => total + (variant.fileSize ?? 0), 0);
+  }
+
+  let batch: StoredObjectInfo[] = [];
+  const flush = async () => {
+    const existing = await db.getExistingMediaFileKeys(batch.map(object => object.key));
+    for (const object of batch) {
+      if (existing.has(object.key)) continue;
+      try {
+        await storageDelete(object.key);
+      } catch (error) {
+        console.error(`[Media] Failed to delete stored object ${object.key}`, error);
+        continue;
+      }
+      report.deletedObjects++;
+      report.reclaimedBytes += object.size;
+    }
+    batch = [];
+  };
+
+  for await (const object of storageList()) {
+    if (!MEDIA_KEY_PATTERN.test(object.key) || object.lastModified >= cutoff) continue;
+    batch.push(object);
+    if (batch.length >= KEY_BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return report;
+}
+
+export function startMediaCleanupSchedule() {
+  const run = () =>
+    sweepOrphanedMedia(ENV.mediaOrphanRetentionDays)
+      .then(report => {
+        console.log(
+          `[Media] Orphan sweep removed ${report.deletedRows} rows and ${report.deletedObjects} objects, reclaiming ${report.reclaimedBytes} bytes`
+        );
+      })
+      .catch(error => console.error("[Media] Orphan sweep failed", error));
+
+  // First sweep shortly after boot, then daily; neither keeps the process alive
+  setTimeout(run, 60_000).unref();
+  setInterval(run, SWEEP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { MySqlDialect } from "drizzle-orm/mysql-core";
+import { galleryCursorCondition } from "./db";
+
+describe("galleryCursorCondition", () => {
+  it("binds the cursor date as UTC, like the stored timestamps it is compared with", () => {
+    const query = new MySqlDialect().sqlToQuery(galleryCursorCondition({ date: new Date("2026-03-01T23:30:00Z"), id: 42 }));
+
+    expect(query.sql).toBe(
+      "(COALESCE(`media_files`.`takenAt`, `media_files`.`uploadedAt`) < ? or (COALESCE(`media_files`.`takenAt`, `media_files`.`uploadedAt`) = ? and `media_files`.`id` < ?))"
+    );
+    expect(query.params).toEqual(["2026-03-01 23:30:00.000", "2026-03-01 23:30:00.000", 42]);
+  });
+});
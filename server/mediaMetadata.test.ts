@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import exifr from "exifr";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { prepareImageUpload } from "./mediaMetadata";
+
+describe("prepareImageUpload", () => {
+  let rootDir: string;
+  let filePath: string;
+
+  // A landscape JPEG stored sideways (orientation 6) with capture time, camera and GPS tags
+  const writePhoto = async (options: { orientation?: number; gps?: boolean } = {}) => {
+    const data = await sharp({ create: { width: 40, height: 20, channels: 3, background: "#336699" } })
+      .jpeg()
+      .withExif({
+        IFD0: { Make: "Acme", Model: "Acme X1" },
+        IFD2: { DateTimeOriginal: "2024:05:06 07:08:09" },
+        ...(options.gps ? { IFD3: { GPSLatitudeRef: "N", GPSLatitude: "51/1 30/1 0/1", GPSLongitudeRef: "W", GPSLongitude: "0/1 6/1 0/1" } } : {}),
+      })
+      .withMetadata({ orientation: options.orientation ?? 1 })
+      .toBuffer();
+    await writeFile(filePath, data);
+  };
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(os.tmpdir(), "metadata-test-"));
+    filePath = path.join(rootDir, "upload");
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("reads capture time, camera, dimensions and coordinates", async () => {
+    await writePhoto({ gps: true });
+
+    const { metadata } = await prepareImageUpload(filePath, { stripLocation: false });
+
+    expect(metadata).toMatchObject({ width: 40, height: 20, camera: "Acme X1", latitude: 51.5, longitude: -0.1 });
+    expect(metadata.takenAt?.getFullYear()).toBe(2024);
+  });
+
+  it("bakes the EXIF orientation into the stored pixels", async () => {
+    await writePhoto({ orientation: 6 });
+
+    const { metadata, fileSize } = await prepareImageUpload(filePath, { stripLocation: false });
+    const stored = await sharp(filePath).metadata();
+
+    expect(metadata).toMatchObject({ width: 20, height: 40 });
+    expect([stored.width, stored.height, stored.orientation ?? 1]).toEqual([20, 40, 1]);
+    expect(fileSize).toBe((await readFile(filePath)).length);
+    expect((await exifr.parse(filePath))?.Make).toBe("Acme");
+  });
+
+  it("removes GPS from the stored file but keeps it in the metadata when asked", async () => {
+    await writePhoto({ gps: true });
+
+    const { metadata } = await prepareImageUpload(filePath, { stripLocation: true });
+
+    expect(metadata.latitude).toBe(51.5);
+    expect(await exifr.gps(filePath)).toBeUndefined();
+  });
+
+  it("leaves files without metadata untouched", async () => {
+    await writeFile(filePath, await sharp({ create: { width: 8, height: 8, channels: 3, background: "#fff" } }).png().toBuffer());
+    const before = await readFile(filePath);
+
+    const { metadata } = await prepareImageUpload(filePath, { stripLocation: true });
+
+    expect(metadata).toEqual({ width: 8, height: 8, takenAt: null, latitude: null, longitude: null, camera: null });
+    expect((await readFile(filePath)).equals(before)).toBe(true);
+  });
+});
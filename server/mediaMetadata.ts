@@ -0,0 +1,103 @@
+import { BadRequestError } from "@shared/_core/errors";
+import exifr from "exifr";
+import { rename, rm, stat } from "fs/promises";
+import sharp from "sharp";
+import type { MediaFile } from "../drizzle/schema";
+
+export type MediaMetadata = Pick<MediaFile, "width" | "height" | "takenAt" | "latitude" | "longitude" | "camera">;
+
+type ExifTags = {
+  DateTimeOriginal?: Date;
+  CreateDate?: Date;
+  Make?: string;
+  Model?: string;
+  ExifImageWidth?: number;
+  ExifImageHeight?: number;
+  latitude?: number;
+  longitude?: number;
+};
+
+// Formats sharp can both decode and re-encode without losing animation
+const REWRITABLE_FORMATS = new Set(["jpeg", "png", "webp"]);
+const JPEG_QUALITY = 92;
+
+const emptyMetadata = (): MediaMetadata => ({
+  width: null,
+  height: null,
+  takenAt: null,
+  latitude: null,
+  longitude: null,
+  camera: null,
+});
+
+function describeCamera(make?: string, model?: string) {
+  const parts = [make?.trim(), model?.trim()].filter(Boolean) as string[];
+  // Many cameras already repeat the make in the model ("Canon" + "Canon EOS R6")
+  if (parts.length === 2 && parts[1].toLowerCase().startsWith(parts[0].toLowerCase())) {
+    parts.shift();
+  }
+  return parts.length > 0 ? parts.join(" ").slice(0, 255) : null;
+}
+
+async function readExif(filePath: string): Promise<ExifTags> {
+  try {
+    return (await exifr.parse(filePath, { gps: true, pick: ["DateTimeOriginal", "CreateDate", "Make", "Model", "ExifImageWidth", "ExifImageHeight", "GPSLatitude", "GPSLatitudeRef", "GPSLongitude", "GPSLongitudeRef"] })) ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Reads capture metadata from an uploaded photo and rewrites the file in place
+ * so it displays upright everywhere: the EXIF orientation is baked into the
+ * pixels. With stripLocation, the stored copy carries no EXIF at all, since
+ * the GPS block cannot be dropped on its own; what matters is already in the row.
+ */
+export async function prepareImageUpload(filePath: string, options: { stripLocation: boolean }) {
+  const exif = await readExif(filePath);
+  const metadata = emptyMetadata();
+
+  const takenAt = exif.DateTimeOriginal ?? exif.CreateDate;
+  metadata.takenAt = takenAt instanceof Date && !Number.isNaN(takenAt.getTime()) ? takenAt : null;
+  metadata.camera = describeCamera(exif.Make, exif.Model);
+  const hasLocation = Number.isFinite(exif.latitude) && Number.isFinite(exif.longitude);
+  if (hasLocation) {
+    metadata.latitude = exif.latitude!;
+    metadata.longitude = exif.longitude!;
+  }
+
+  let image: sharp.Metadata | null = null;
+  try {
+    image = await sharp(filePath).metadata();
+  } catch {
+    // Not decodable here (e.g. HEIC); fall back to the EXIF dimensions
+  }
+  metadata.width = image?.autoOrient?.width ?? image?.width ?? exif.ExifImageWidth ?? null;
+  metadata.height = image?.autoOrient?.height ?? image?.height ?? exif.ExifImageHeight ?? null;
+
+  const canRewrite = !!image?.format && REWRITABLE_FORMATS.has(image.format);
+  const needsRotation = (image?.orientation ?? 1) > 1;
+  const needsStripping = options.stripLocation && hasLocation;
+
+  if (needsStripping && !canRewrite) {
+    throw BadRequestError("Location data could not be removed from this photo; convert it to JPEG or turn off location removal");
+  }
+
+  if (canRewrite && (needsRotation || needsStripping)) {
+    let pipeline = sharp(filePath).rotate();
+    pipeline = needsStripping ? pipeline.keepIccProfile() : pipeline.keepMetadata();
+    if (image!.format === "jpeg") {
+      pipeline = pipeline.jpeg({ quality: JPEG_QUALITY });
+    }
+    const outputPath = `${filePath}.normalized`;
+    try {
+      await pipeline.toFile(outputPath);
+      await rename(outputPath, filePath);
+    } finally {
+      await rm(outputPath, { force: true });
+    }
+  }
+
+  const { size } = await stat(filePath);
+  return { metadata, fileSize: size };
+}
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Express, Request, Response } from "express";
+import { readdir } from "fs/promises";
+import os from "os";
+import { Readable } from "stream";
+
+vi.mock("@shared/const", async importOriginal => ({
+  ...(await importOriginal<typeof import("@shared/const")>()),
+  MEDIA_UPLOAD_MAX_BYTES: 1024,
+}));
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getDiaryEntryById: vi.fn(),
+    createMediaFile: vi.fn(),
+  };
+});
+
+vi.mock("./_core/sdk", () => ({ sdk: { authenticateRequest: vi.fn() } }));
+vi.mock("./storage", () => ({ storagePut: vi.fn(async (key: string) => ({ key, url: `/api/storage/${key}` })) }));
+vi.mock("./mediaVariants", () => ({
+  generateMediaVariants: vi.fn(async () => []),
+  withMediaVariants: vi.fn(async (files: object[]) => files.map(file => ({ ...file, variants: [] }))),
+}));
+
+import type { MediaFile, User } from "../drizzle/schema";
+import { ForbiddenError } from "@shared/_core/errors";
+import * as db from "./db";
+import { sdk } from "./_core/sdk";
+import { registerMediaUploadRoutes } from "./mediaUpload";
+import { storagePut } from "./storage";
+import { diaryEntry } from "./test/fixtures";
+
+type UploadHandler = (req: Request, res: Response) => Promise<void>;
+
+const user: User = {
+  id: 1,
+  openId: "user-1",
+  email: "user1@example.com",
+  name: "Test User 1",
+  loginMethod: "manus",
+  role: "user",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastSignedIn: new Date(),
+};
+
+const entry = diaryEntry({ title: "Beach" });
+
+function uploadHandler(): UploadHandler {
+  let handler: UploadHandler | undefined;
+  const app = { post: (_path: string, routeHandler: UploadHandler) => (handler = routeHandler) };
+  registerMediaUploadRoutes(app as unknown as Express);
+  return handler!;
+}
+
+/** Runs the route with the body streamed in chunks, as Express hands it over. */
+async function upload(chunks: Buffer[], options: { mimeType?: string; query?: Record<string, string>; contentLength?: number } = {}) {
+  const req = Object.assign(Readable.from(chunks), {
+    headers: {
+      "content-type": options.mimeType ?? "video/mp4",
+      ...(options.contentLength !== undefined ? { "content-length": String(options.contentLength) } : {}),
+    },
+    query: options.query ?? { fileName: "clip.mp4" },
+  });
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+  await uploadHandler()(req as unknown as Request, res as unknown as Response);
+  return res;
+}
+
+async function tempUploads() {
+  return (await readdir(os.tmpdir())).filter(name => name.startsWith("media-upload-"));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(sdk.authenticateRequest).mockResolvedValue(user);
+  vi.mocked(db.getDiaryEntryById).mockImplementation(async id => (id === entry.id ? entry : undefined));
+  vi.mocked(db.createMediaFile).mockImplementation(async file => ({ ...file, id: 40, uploadedAt: new Date() }) as MediaFile);
+});
+
+describe("POST /api/media/upload", () => {
+  it("stores the file under the user's folder and returns the media row", async () => {
+    const res = await upload([Buffer.alloc(300), Buffer.alloc(200)], { query: { fileName: "../../etc/clip one.mp4", diaryEntryId: "10" } });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toMatchObject({ id: 40, diaryEntryId: 10, fileType: "video", fileSize: 500, variants: [] });
+    const [fileKey, , mimeType] = vi.mocked(storagePut).mock.calls[0];
+    expect(fileKey).toMatch(/^1\/media\/\d+-clip_one\.mp4$/);
+    expect(mimeType).toBe("video/mp4");
+  });
+
+  it("rejects file types it does not accept", async () => {
+    const res = await upload([Buffer.from("<html>")], { mimeType: "text/html" });
+
+    expect(res).toMatchObject({ statusCode: 400, body: { error: "Unsupported file type: text/html" } });
+    expect(storagePut).not.toHaveBeenCalled();
+  });
+
+  it("rejects uploads over the size limit, declared or streamed, and cleans up", async () => {
+    const before = await tempUploads();
+
+    await expect(upload([Buffer.alloc(10)], { contentLength: 2048 })).resolves.toMatchObject({ statusCode: 413 });
+    await expect(upload([Buffer.alloc(600), Buffer.alloc(600)])).resolves.toMatchObject({ statusCode: 413 });
+    expect(storagePut).not.toHaveBeenCalled();
+    expect(db.createMediaFile).not.toHaveBeenCalled();
+    expect(await tempUploads()).toEqual(before);
+  });
+
+  it("needs a file name that names a file", async () => {
+    await expect(upload([Buffer.alloc(10)], { query: {} })).resolves.toMatchObject({ statusCode: 400, body: { error: "fileName is required" } });
+    await expect(upload([Buffer.alloc(10)], { query: { fileName: "../.." } })).resolves.toMatchObject({ statusCode: 400 });
+  });
+
+  it("only attaches to the user's own entries", async () => {
+    vi.mocked(sdk.authenticateRequest).mockResolvedValue({ ...user, id: 2 });
+
+    await expect(upload([Buffer.alloc(10)], { query: { fileName: "clip.mp4", diaryEntryId: "10" } })).resolves.toMatchObject({ statusCode: 404 });
+    await expect(upload([Buffer.alloc(10)], { query: { fileName: "clip.mp4", diaryEntryId: "ten" } })).resolves.toMatchObject({ statusCode: 404 });
+    expect(db.createMediaFile).not.toHaveBeenCalled();
+  });
+
+  it("needs a signed-in user", async () => {
+    vi.mocked(sdk.authenticateRequest).mockRejectedValue(ForbiddenError("Invalid session cookie"));
+
+    await expect(upload([Buffer.alloc(10)])).resolves.toMatchObject({ statusCode: 403 });
+    expect(storagePut).not.toHaveBeenCalled();
+  });
+});
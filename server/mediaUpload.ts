@@ -0,0 +1,137 @@
+import { MEDIA_UPLOAD_MAX_BYTES, MEDIA_UPLOAD_MIME_TYPES } from "@shared/const";
+import { BadRequestError, HttpError, NotFoundError } from "@shared/_core/errors";
+import type { Express, Request, Response } from "express";
+import { createWriteStream, openAsBlob } from "fs";
+import { rm } from "fs/promises";
+import { nanoid } from "nanoid";
+import os from "os";
+import path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import * as db from "./db";
+import { sdk } from "./_core/sdk";
+import { prepareImageUpload, type MediaMetadata } from "./mediaMetadata";
+import { generateMediaVariants, withMediaVariants } from "./mediaVariants";
+import { storagePut } from "./storage";
+
+type MediaFileType = keyof typeof MEDIA_UPLOAD_MIME_TYPES;
+
+function getQueryParam(req: Request, key: string): string | undefined {
+  const value = req.query[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+function getMediaFileType(mimeType: string): MediaFileType | undefined {
+  return (Object.keys(MEDIA_UPLOAD_MIME_TYPES) as MediaFileType[]).find(type =>
+    (MEDIA_UPLOAD_MIME_TYPES[type] as readonly string[]).includes(mimeType)
+  );
+}
+
+const tooLarge = () => new HttpError(413, `File exceeds the ${MEDIA_UPLOAD_MAX_BYTES / (1024 * 1024)}MB upload limit`);
+
+/**
+ * Streams the request body to a temp file, aborting once it grows past maxBytes.
+ * Resolves with the number of bytes written.
+ */
+async function writeRequestToFile(req: Request, filePath: string, maxBytes: number): Promise<number> {
+  let received = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      callback(received > maxBytes ? tooLarge() : null, chunk);
+    },
+  });
+  await pipeline(req, limiter, createWriteStream(filePath));
+  return received;
+}
+
+/**
+ * Media uploads bypass tRPC: the raw file is the request body (Content-Type is its mime type)
+ * and metadata travels in the query string, so large videos never sit in memory as base64.
+ * Pass stripLocation=true to remove GPS data from photos before they are stored.
+ */
+export function registerMediaUploadRoutes(app: Express) {
+  app.post("/api/media/upload", async (req: Request, res: Response) => {
+    let tempPath: string | null = null;
+
+    try {
+      const user = await sdk.authenticateRequest(req);
+
+      const mimeType = (req.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+      const fileType = getMediaFileType(mimeType);
+      if (!fileType) {
+        throw BadRequestError(`Unsupported file type: ${mimeType || "unknown"}`);
+      }
+
+      const declaredSize = Number(req.headers["content-length"] ?? 0);
+      if (declaredSize > MEDIA_UPLOAD_MAX_BYTES) {
+        throw tooLarge();
+      }
+
+      const fileName = getQueryParam(req, "fileName");
+      if (!fileName) {
+        throw BadRequestError("fileName is required");
+      }
+      // Only the last path segment is kept, so a name cannot reach outside the user's folder
+      const safeName = path.basename(fileName).replace(/[^\w.\-]+/g, "_");
+      if (/^\.*$/.test(safeName)) {
+        throw BadRequestError("fileName is not a valid file name");
+      }
+
+      const diaryEntryParam = getQueryParam(req, "diaryEntryId");
+      const diaryEntryId = diaryEntryParam !== undefined ? Number(diaryEntryParam) : undefined;
+      if (diaryEntryId !== undefined) {
+        const entry = Number.isInteger(diaryEntryId) ? await db.getDiaryEntryById(diaryEntryId) : undefined;
+        if (!entry || entry.userId !== user.id || entry.deletedAt) {
+          throw NotFoundError("Diary entry not found");
+        }
+      }
+
+      tempPath = path.join(os.tmpdir(), `media-upload-${nanoid()}`);
+      let fileSize = await writeRequestToFile(req, tempPath, MEDIA_UPLOAD_MAX_BYTES);
+      if (fileSize === 0) {
+        throw BadRequestError("File is empty");
+      }
+
+      let metadata: Partial<MediaMetadata> = {};
+      if (fileType === "image") {
+        const prepared = await prepareImageUpload(tempPath, { stripLocation: getQueryParam(req, "stripLocation") === "true" });
+        metadata = prepared.metadata;
+        fileSize = prepared.fileSize;
+      }
+
+      const fileKey = `${user.id}/media/${Date.now()}-${safeName}`;
+      const blob = await openAsBlob(tempPath, { type: mimeType });
+      const { url } = await storagePut(fileKey, blob, mimeType);
+
+      const media = await db.createMediaFile({
+        userId: user.id,
+        diaryEntryId,
+        fileKey,
+        fileUrl: url,
+        fileType,
+        mimeType,
+        fileName,
+        fileSize,
+        ...metadata,
+      });
+
+      // Variants are rendered from the temp file before it is removed below
+      await generateMediaVariants(media, tempPath);
+      const [withVariants] = await withMediaVariants([media]);
+
+      res.status(201).json(withVariants);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("[Media] Upload failed", error);
+      res.status(500).json({ error: "Failed to upload media" });
+    } finally {
+      if (tempPath) {
+        await rm(tempPath, { force: true });
+      }
+    }
+  });
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm, stat } from "fs/promises";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    createMediaVariants: vi.fn(),
+    getMediaVariantsByMediaFileIds: vi.fn(),
+  };
+});
+
+import * as db from "./db";
+import { generateMediaVariants, withMediaVariants } from "./mediaVariants";
+import { setStorageDriver } from "./storage";
+import { createLocalDriver } from "./storage/localDriver";
+
+describe("generateMediaVariants", () => {
+  let rootDir: string;
+
+  const writeImage = async (width: number, height: number) => {
+    const filePath = path.join(rootDir, "source.png");
+    await sharp({ create: { width, height, channels: 3, background: "#336699" } }).png().toFile(filePath);
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    rootDir = await mkdtemp(path.join(os.tmpdir(), "variants-test-"));
+    setStorageDriver(createLocalDriver(rootDir));
+  });
+
+  afterEach(async () => {
+    setStorageDriver(null);
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("renders a WebP thumbnail per width and records them", async () => {
+    const source = await writeImage(1600, 800);
+
+    const variants = await generateMediaVariants({ id: 7, fileKey: "1/media/photo.png", fileType: "image" }, source);
+
+    expect(variants.map(v => [v.width, v.height])).toEqual([[320, 160], [640, 320], [1280, 640]]);
+    expect(variants.every(v => v.kind === "thumbnail" && v.mimeType === "image/webp" && v.mediaFileId === 7)).toBe(true);
+    expect(db.createMediaVariants).toHaveBeenCalledWith(variants);
+    await expect(stat(path.join(rootDir, "1/media/photo.png.thumbnail-w640.webp"))).resolves.toBeTruthy();
+  });
+
+  it("never upscales small images", async () => {
+    const source = await writeImage(500, 500);
+
+    const variants = await generateMediaVariants({ id: 8, fileKey: "1/media/small.png", fileType: "image" }, source);
+
+    expect(variants.map(v => v.width)).toEqual([320, 500]);
+  });
+
+  it("sizes photos by how they are displayed after EXIF rotation", async () => {
+    const source = path.join(rootDir, "portrait.jpg");
+    // Stored landscape, shown portrait: orientation 6 turns it a quarter clockwise
+    await sharp({ create: { width: 1000, height: 500, channels: 3, background: "#336699" } })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toFile(source);
+
+    const variants = await generateMediaVariants({ id: 10, fileKey: "1/media/portrait.jpg", fileType: "image" }, source);
+
+    expect(variants.map(v => [v.width, v.height])).toEqual([[320, 640], [500, 1000]]);
+  });
+
+  it("returns no variants when the source cannot be decoded", async () => {
+    const variants = await generateMediaVariants({ id: 9, fileKey: "1/media/broken.png", fileType: "image" }, path.join(rootDir, "missing.png"));
+
+    expect(variants).toEqual([]);
+    expect(db.createMediaVariants).not.toHaveBeenCalled();
+  });
+});
+
+describe("withMediaVariants", () => {
+  it("groups variant URLs under their media file", async () => {
+    vi.mocked(db.getMediaVariantsByMediaFileIds).mockResolvedValue([
+      { id: 1, mediaFileId: 2, kind: "thumbnail", width: 320, height: 240, fileKey: "k1", fileUrl: "/u1", mimeType: "image/webp", fileSize: 10, createdAt: new Date() },
+      { id: 2, mediaFileId: 3, kind: "poster", width: 1920, height: 1080, fileKey: "k2", fileUrl: "/u2", mimeType: "image/webp", fileSize: 20, createdAt: new Date() },
+    ]);
+
+    const result = await withMediaVariants([{ id: 2 }, { id: 3 }, { id: 4 }]);
+
+    expect(result).toEqual([
+      { id: 2, variants: [{ kind: "thumbnail", width: 320, height: 240, fileUrl: "/u1", mimeType: "image/webp" }] },
+      { id: 3, variants: [{ kind: "poster", width: 1920, height: 1080, fileUrl: "/u2", mimeType: "image/webp" }] },
+      { id: 4, variants: [] },
+    ]);
+  });
+});
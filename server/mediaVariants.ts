@@ -0,0 +1,128 @@
+import { spawn } from "child_process";
+import sharp from "sharp";
+import type { InsertMediaVariant, MediaFile, MediaVariant } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import * as db from "./db";
+import { storagePut } from "./storage";
+
+// Widths served through srcset; a source narrower than a width is never upscaled
+export const THUMBNAIL_WIDTHS = [320, 640, 1280] as const;
+
+const THUMBNAIL_QUALITY = 80;
+const POSTER_SEEK_SECONDS = 1;
+
+export type MediaVariantUrls = Pick<MediaVariant, "kind" | "width" | "height" | "fileUrl" | "mimeType">;
+
+let ffmpegMissing = false;
+
+/**
+ * Grabs a single PNG frame from a video with ffmpeg. Resolves null when ffmpeg
+ * is not installed or the frame cannot be decoded, so uploads still succeed.
+ */
+function extractVideoFrame(filePath: string, seekSeconds: number): Promise<Buffer | null> {
+  if (ffmpegMissing) return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    const args = ["-ss", String(seekSeconds), "-i", filePath, "-frames:v", "1", "-f", "image2pipe", "-vcodec", "png", "pipe:1"];
+    const ffmpeg = spawn(ENV.ffmpegPath, args, { stdio: ["ignore", "pipe", "ignore"] });
+    const chunks: Buffer[] = [];
+
+    ffmpeg.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.on("error", error => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        ffmpegMissing = true;
+        console.warn(`[Media] ffmpeg not found at "${ENV.ffmpegPath}"; video posters are disabled`);
+      }
+      resolve(null);
+    });
+    ffmpeg.on("close", code => resolve(code === 0 && chunks.length > 0 ? Buffer.concat(chunks) : null));
+  });
+}
+
+async function putVariant(
+  media: Pick<MediaFile, "id" | "fileKey">,
+  kind: InsertMediaVariant["kind"],
+  { data, info }: { data: Buffer; info: sharp.OutputInfo }
+): Promise<InsertMediaVariant> {
+  const fileKey = `${media.fileKey}.${kind}-w${info.width}.webp`;
+  const { url } = await storagePut(fileKey, data, "image/webp");
+  return {
+    mediaFileId: media.id,
+    kind,
+    width: info.width,
+    height: info.height,
+    fileKey,
+    fileUrl: url,
+    mimeType: "image/webp",
+    fileSize: info.size,
+  };
+}
+
+/**
+ * Renders the WebP thumbnails for an image source. Widths at or beyond the
+ * source width collapse into one full-size rendition.
+ */
+async function renderThumbnails(media: Pick<MediaFile, "id" | "fileKey">, source: string | Buffer) {
+  // metadata() reports the stored size; orientations 5-8 turn the image a quarter, so its width is the stored height
+  const { width = 0, height = 0, orientation = 1 } = await sharp(source).metadata();
+  const sourceWidth = orientation >= 5 ? height : width;
+  const widths: number[] = THUMBNAIL_WIDTHS.filter(width => width < sourceWidth);
+  if (widths.length < THUMBNAIL_WIDTHS.length && sourceWidth > 0) {
+    widths.push(sourceWidth);
+  }
+
+  const variants: InsertMediaVariant[] = [];
+  for (const width of widths) {
+    // rotate() applies EXIF orientation before the metadata is stripped
+    const output = await sharp(source)
+      .rotate()
+      .resize({ width, withoutEnlargement: true })
+      .webp({ quality: THUMBNAIL_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+    variants.push(await putVariant(media, "thumbnail", output));
+  }
+  return variants;
+}
+
+/**
+ * Generates thumbnails (and, for videos, a poster frame) from the uploaded file
+ * on disk and records them against the media row. Failures are logged and
+ * leave the upload without variants; clients fall back to the original.
+ */
+export async function generateMediaVariants(
+  media: Pick<MediaFile, "id" | "fileKey" | "fileType">,
+  filePath: string
+): Promise<InsertMediaVariant[]> {
+  try {
+    let variants: InsertMediaVariant[];
+    if (media.fileType === "image") {
+      variants = await renderThumbnails(media, filePath);
+    } else if (media.fileType === "video") {
+      const frame = await extractVideoFrame(filePath, POSTER_SEEK_SECONDS) ?? await extractVideoFrame(filePath, 0);
+      if (!frame) return [];
+      const poster = await sharp(frame).webp({ quality: THUMBNAIL_QUALITY }).toBuffer({ resolveWithObject: true });
+      variants = [await putVariant(media, "poster", poster), ...await renderThumbnails(media, frame)];
+    } else {
+      // Voice notes have nothing to render
+      return [];
+    }
+    await db.createMediaVariants(variants);
+    return variants;
+  } catch (error) {
+    console.error(`[Media] Failed to generate variants for ${media.fileKey}`, error);
+    return [];
+  }
+}
+
+/**
+ * Attaches each file's variant URLs (smallest first) for responsive rendering.
+ */
+export async function withMediaVariants<T extends Pick<MediaFile, "id">>(files: T[]) {
+  const variants = await db.getMediaVariantsByMediaFileIds(files.map(file => file.id));
+  return files.map(file => ({
+    ...file,
+    variants: variants
+      .filter(variant => variant.mediaFileId === file.id)
+      .map(({ kind, width, height, fileUrl, mimeType }): MediaVariantUrls => ({ kind, width, height, fileUrl, mimeType })),
+  }));
+}
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAuthContext } from "./test/context";
+import { diaryEntry } from "./test/fixtures";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getDiaryEntryByClientId: vi.fn(),
+    createDiaryEntry: vi.fn(),
+    deleteDiaryDraft: vi.fn(),
+    setDiaryEntryTags: vi.fn(),
+    getHabitById: vi.fn(),
+    getHabitCompletionByDate: vi.fn(),
+    upsertHabitCompletion: vi.fn(),
+    getMoodHistoryByDate: vi.fn(),
+    upsertMoodHistory: vi.fn(),
+  };
+});
+
+import type { Habit, HabitCompletion, MoodHistory } from "../drizzle/schema";
+import * as db from "./db";
+import { appRouter } from "./routers";
+
+const day = new Date("2026-03-01T00:00:00Z");
+const recordedAt = new Date("2026-03-01T09:00:00Z");
+const later = new Date("2026-03-01T12:00:00Z");
+
+const entry = diaryEntry({
+  title: "On the train",
+  content: "No signal",
+  contentFormat: "markdown",
+  date: day,
+  clientId: "c0ffee",
+  createdAt: later,
+  updatedAt: later,
+});
+
+const habit: Habit = {
+  id: 7,
+  userId: 1,
+  name: "Reading",
+  description: null,
+  color: null,
+  icon: null,
+  createdAt: day,
+  updatedAt: day,
+  isActive: 1,
+};
+
+const completion: HabitCompletion = {
+  id: 3,
+  habitId: 7,
+  userId: 1,
+  date: day,
+  completed: 1,
+  notes: null,
+  completedAt: later,
+  createdAt: later,
+  updatedAt: later,
+};
+
+const mood: MoodHistory = {
+  id: 4,
+  userId: 1,
+  date: day,
+  mood: "good",
+  moodIntensity: 7,
+  notes: null,
+  createdAt: later,
+  updatedAt: later,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(db.getHabitById).mockResolvedValue(habit);
+});
+
+describe("diary.create replay", () => {
+  it("returns the entry an earlier attempt already created", async () => {
+    vi.mocked(db.getDiaryEntryByClientId).mockResolvedValue(entry);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    const result = await caller.diary.create({ title: "On the train", date: day, clientId: "c0ffee", recordedAt });
+    expect(result).toBe(entry);
+    expect(db.getDiaryEntryByClientId).toHaveBeenCalledWith(1, "c0ffee");
+    expect(db.createDiaryEntry).not.toHaveBeenCalled();
+  });
+
+  it("leaves a newer mood for the day alone", async () => {
+    vi.mocked(db.getDiaryEntryByClientId).mockResolvedValue(undefined);
+    vi.mocked(db.createDiaryEntry).mockResolvedValue({ ...entry, mood: "sad", moodIntensity: 3 });
+    vi.mocked(db.getMoodHistoryByDate).mockResolvedValue(mood);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await caller.diary.create({ title: "On the train", date: day, mood: "sad", moodIntensity: 3, clientId: "c0ffee", recordedAt });
+    expect(db.createDiaryEntry).toHaveBeenCalledOnce();
+    expect(db.upsertMoodHistory).not.toHaveBeenCalled();
+  });
+
+  it("only drops the version of the draft the entry was written from", async () => {
+    vi.mocked(db.getDiaryEntryByClientId).mockResolvedValue(undefined);
+    vi.mocked(db.createDiaryEntry).mockResolvedValue(entry);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await caller.diary.create({ title: "On the train", date: day, clientId: "c0ffee", discardDraftVersion: 3, recordedAt });
+    expect(db.deleteDiaryDraft).toHaveBeenCalledWith(1, null, 3);
+  });
+});
+
+describe("offline replays with recordedAt", () => {
+  it("rejects a habit check-in older than the one on the server", async () => {
+    vi.mocked(db.getHabitCompletionByDate).mockResolvedValue(completion);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(
+      caller.habitCompletions.toggle({ habitId: 7, date: day, completed: false, recordedAt })
+    ).rejects.toMatchObject({ code: "CONFLICT" });
+    expect(db.upsertHabitCompletion).not.toHaveBeenCalled();
+  });
+
+  it("stamps a habit check-in with the time it was made", async () => {
+    vi.mocked(db.getHabitCompletionByDate).mockResolvedValue({ ...completion, updatedAt: day });
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await caller.habitCompletions.toggle({ habitId: 7, date: day, completed: false, recordedAt });
+    expect(db.upsertHabitCompletion).toHaveBeenCalledWith(7, 1, day, false, recordedAt);
+  });
+
+  it("rejects a mood older than the one on the server", async () => {
+    vi.mocked(db.getMoodHistoryByDate).mockResolvedValue(mood);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(
+      caller.mood.record({ date: day, mood: "sad", moodIntensity: 3, recordedAt })
+    ).rejects.toMatchObject({ code: "CONFLICT" });
+    expect(db.upsertMoodHistory).not.toHaveBeenCalled();
+  });
+});
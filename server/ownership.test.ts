@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAuthContext } from "./test/context";
+import { diaryEntry } from "./test/fixtures";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getDiaryEntryById: vi.fn(),
+    getDiaryEntryRevisionById: vi.fn(),
+    getHabitById: vi.fn(),
+    getMediaFileById: vi.fn(),
+    deleteMediaFile: vi.fn(),
+    updateDiaryEntry: vi.fn(async () => true),
+    deleteDiaryDraft: vi.fn(),
+    softDeleteDiaryEntry: vi.fn(),
+    updateHabit: vi.fn(),
+    upsertHabitCompletion: vi.fn(),
+    getHabitCompletionsByHabitAndDateRange: vi.fn(async () => []),
+    getMediaFilesByDiaryEntry: vi.fn(async () => []),
+    attachMediaFilesToDiaryEntry: vi.fn(),
+  };
+});
+
+import type { DiaryEntryRevision, Habit, MediaFile } from "../drizzle/schema";
+import * as db from "./db";
+import { appRouter } from "./routers";
+
+const OWNER_ID = 1;
+const INTRUDER_ID = 2;
+
+const entry = diaryEntry({ userId: OWNER_ID, title: "Private", content: "Only for me" });
+
+const habit: Habit = {
+  id: 20,
+  userId: OWNER_ID,
+  name: "Reading",
+  description: null,
+  color: null,
+  icon: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: 1,
+};
+
+const revision: DiaryEntryRevision = {
+  id: 30,
+  diaryEntryId: entry.id,
+  userId: OWNER_ID,
+  title: "Private",
+  content: "Earlier draft",
+  contentFormat: "plain",
+  createdAt: new Date(),
+};
+
+const mediaFile: MediaFile = {
+  id: 40,
+  userId: OWNER_ID,
+  diaryEntryId: entry.id,
+  fileKey: "1/media/photo.jpg",
+  fileUrl: "/api/storage/1/media/photo.jpg",
+  fileType: "image",
+  mimeType: "image/jpeg",
+  fileName: "photo.jpg",
+  fileSize: 1024,
+  width: null,
+  height: null,
+  takenAt: null,
+  latitude: null,
+  longitude: null,
+  camera: null,
+  uploadedAt: new Date(),
+  deletedAt: null,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(db.getDiaryEntryById).mockImplementation(async id => (id === entry.id ? entry : undefined));
+  vi.mocked(db.getDiaryEntryRevisionById).mockImplementation(async id => (id === revision.id ? revision : undefined));
+  vi.mocked(db.getMediaFileById).mockImplementation(async id => (id === mediaFile.id ? mediaFile : undefined));
+  vi.mocked(db.getHabitById).mockImplementation(async id => (id === habit.id ? habit : undefined));
+});
+
+describe("Ownership enforcement", () => {
+  it("lets the owner update their own diary entry", async () => {
+    const caller = appRouter.createCaller(createAuthContext(OWNER_ID).ctx);
+
+    await caller.diary.update({ id: entry.id, title: "Edited" });
+    expect(db.updateDiaryEntry).toHaveBeenCalledOnce();
+  });
+
+  it("rejects reading, editing and deleting another user's diary entry", async () => {
+    const caller = appRouter.createCaller(createAuthContext(INTRUDER_ID).ctx);
+
+    await expect(caller.diary.getById({ id: entry.id })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.diary.update({ id: entry.id, title: "Hijacked" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.diary.delete({ id: entry.id })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.updateDiaryEntry).not.toHaveBeenCalled();
+    expect(db.softDeleteDiaryEntry).not.toHaveBeenCalled();
+  });
+
+  it("rejects reading or restoring another user's revisions", async () => {
+    const caller = appRouter.createCaller(createAuthContext(INTRUDER_ID).ctx);
+
+    await expect(caller.diary.listRevisions({ diaryEntryId: entry.id })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.diary.getRevision({ id: revision.id })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.diary.restoreRevision({ id: revision.id })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.updateDiaryEntry).not.toHaveBeenCalled();
+  });
+
+  it("lets the owner list media on their own entry", async () => {
+    const caller = appRouter.createCaller(createAuthContext(OWNER_ID).ctx);
+
+    await expect(caller.media.listByEntry({ diaryEntryId: entry.id })).resolves.toEqual([]);
+    expect(db.getMediaFilesByDiaryEntry).toHaveBeenCalledWith(entry.id);
+  });
+
+  it("rejects listing or attaching media on another user's entry", async () => {
+    const caller = appRouter.createCaller(createAuthContext(INTRUDER_ID).ctx);
+
+    await expect(caller.media.listByEntry({ diaryEntryId: entry.id })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.media.attachToEntry({ mediaIds: [1], diaryEntryId: entry.id })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.getMediaFilesByDiaryEntry).not.toHaveBeenCalled();
+    expect(db.attachMediaFilesToDiaryEntry).not.toHaveBeenCalled();
+  });
+
+  it("rejects deleting or replacing another user's media", async () => {
+    const caller = appRouter.createCaller(createAuthContext(INTRUDER_ID).ctx);
+
+    await expect(caller.media.delete({ id: mediaFile.id })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.media.replace({ id: mediaFile.id, replacementId: 41 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.deleteMediaFile).not.toHaveBeenCalled();
+  });
+
+  it("rejects updating or archiving another user's habit", async () => {
+    const caller = appRouter.createCaller(createAuthContext(INTRUDER_ID).ctx);
+
+    await expect(caller.habits.update({ id: habit.id, name: "Hijacked" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.habits.archive({ id: habit.id })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.updateHabit).not.toHaveBeenCalled();
+  });
+
+  it("rejects reading or toggling completions of another user's habit", async () => {
+    const caller = appRouter.createCaller(createAuthContext(INTRUDER_ID).ctx);
+    const today = new Date();
+
+    await expect(
+      caller.habitCompletions.getByHabitAndRange({ habitId: habit.id, startDate: today, endDate: today })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(
+      caller.habitCompletions.toggle({ habitId: habit.id, date: today, completed: true })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.getHabitCompletionsByHabitAndDateRange).not.toHaveBeenCalled();
+    expect(db.upsertHabitCompletion).not.toHaveBeenCalled();
+  });
+
+  it("lets the owner read their own habit completions", async () => {
+    const caller = appRouter.createCaller(createAuthContext(OWNER_ID).ctx);
+    const today = new Date();
+
+    const result = await caller.habitCompletions.getByHabitAndRange({ habitId: habit.id, startDate: today, endDate: today });
+    expect(result).toEqual([]);
+  });
+});
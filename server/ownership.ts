@@ -0,0 +1,50 @@
+import { TRPCError } from "@trpc/server";
+import * as db from "./db";
+
+type OwnedRow = { userId: number | null };
+
+/**
+ * Loads a row by id and checks that it belongs to the given user.
+ * Missing and foreign rows both surface as NOT_FOUND so ids cannot be probed.
+ */
+async function requireOwned<T extends OwnedRow>(
+  load: (id: number) => Promise<T | undefined>,
+  label: string,
+  userId: number,
+  id: number
+): Promise<T> {
+  const row = await load(id);
+  if (!row || row.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `${label} not found` });
+  }
+  return row;
+}
+
+export function requireOwnedDiaryEntry(userId: number, id: number) {
+  return requireOwned(id => db.getDiaryEntryById(id), "Diary entry", userId, id);
+}
+
+export function requireOwnedRevision(userId: number, id: number) {
+  return requireOwned(id => db.getDiaryEntryRevisionById(id), "Revision", userId, id);
+}
+
+export function requireOwnedMediaFile(userId: number, id: number) {
+  return requireOwned(id => db.getMediaFileById(id), "Media file", userId, id);
+}
+
+export function requireOwnedHabit(userId: number, id: number) {
+  return requireOwned(id => db.getHabitById(id), "Habit", userId, id);
+}
+
+export function requireOwnedTag(userId: number, id: number) {
+  return requireOwned(id => db.getTagById(id), "Tag", userId, id);
+}
+
+// Library prompts have no owner, so they surface as NOT_FOUND here and stay read-only
+export function requireOwnedPrompt(userId: number, id: number) {
+  return requireOwned(id => db.getPromptById(id), "Prompt", userId, id);
+}
+
+export function requireOwnedChatThread(userId: number, id: number) {
+  return requireOwned(id => db.getChatThreadById(id), "Conversation", userId, id);
+}
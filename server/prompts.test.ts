@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAuthContext } from "./test/context";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getPromptsForUser: vi.fn(),
+    getPromptById: vi.fn(),
+    createPrompt: vi.fn(async prompt => ({ ...prompt, id: 99, createdAt: new Date() })),
+    deletePrompt: vi.fn(),
+    getDailyPrompt: vi.fn(),
+    getRecentDailyPromptIds: vi.fn(),
+    setDailyPrompt: vi.fn(),
+    getMoodHistoryByDateRange: vi.fn(),
+  };
+});
+
+vi.mock("./_core/llm", () => ({ invokeLLM: vi.fn() }));
+
+import type { WritingPrompt } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import { invokeLLM } from "./_core/llm";
+import * as db from "./db";
+import { pickDailyPrompt } from "./prompts";
+import { appRouter } from "./routers";
+
+function makePrompt(overrides: Partial<WritingPrompt> = {}): WritingPrompt {
+  return {
+    id: 1,
+    userId: null,
+    category: "reflection",
+    text: "What took up most of your attention today?",
+    source: "library",
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+const pool = [1, 2, 3, 4].map(id => makePrompt({ id }));
+const today = new Date(2026, 2, 10);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  ENV.forgeApiKey = "test-key";
+});
+
+describe("pickDailyPrompt", () => {
+  it("picks the same prompt for the same seed", () => {
+    const first = pickDailyPrompt(pool, [], "1:day");
+    expect(pickDailyPrompt([...pool].reverse(), [], "1:day")).toBe(first);
+  });
+
+  it("skips prompts already given in the current cycle", () => {
+    for (const seed of ["a", "b", "c", "d", "e"]) {
+      expect(pickDailyPrompt(pool, [3, 1, 4], seed)?.id).toBe(2);
+    }
+  });
+
+  it("starts a new cycle once every prompt was given, avoiding the latest one", () => {
+    const picks = new Set(["a", "b", "c", "d", "e", "f"].map(seed => pickDailyPrompt(pool, [2, 3, 1, 4], seed)?.id));
+    expect(picks.has(2)).toBe(false);
+    // A full cycle ended with 2; the next one has only given 4 and 1 so far
+    for (const seed of ["a", "b", "c", "d", "e"]) {
+      expect([2, 3]).toContain(pickDailyPrompt(pool, [1, 4, 2, 3, 1, 4], seed)?.id);
+    }
+  });
+});
+
+describe("prompts.today", () => {
+  it("keeps the prompt already chosen for the day", async () => {
+    vi.mocked(db.getDailyPrompt).mockResolvedValue(pool[2]);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    const result = await caller.prompts.today({ date: today });
+    expect(result.prompt).toBe(pool[2]);
+    expect(db.setDailyPrompt).not.toHaveBeenCalled();
+  });
+
+  it("records a fresh pick for a new day", async () => {
+    vi.mocked(db.getDailyPrompt).mockResolvedValue(undefined);
+    vi.mocked(db.getPromptsForUser).mockResolvedValue(pool);
+    vi.mocked(db.getRecentDailyPromptIds).mockResolvedValue([1, 2, 3]);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    const result = await caller.prompts.today({ date: today });
+    expect(result.prompt?.id).toBe(4);
+    expect(db.setDailyPrompt).toHaveBeenCalledWith(1, today, 4);
+  });
+});
+
+describe("prompts.delete", () => {
+  it("refuses to delete library prompts", async () => {
+    vi.mocked(db.getPromptById).mockResolvedValue(pool[0]);
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.prompts.delete({ id: 1 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.deletePrompt).not.toHaveBeenCalled();
+  });
+});
+
+describe("prompts.generate", () => {
+  it("writes a prompt from recent moods and makes it the day's prompt", async () => {
+    vi.mocked(db.getMoodHistoryByDateRange).mockResolvedValue([
+      { id: 1, userId: 1, date: new Date("2026-03-09T00:00:00Z"), mood: "sad", moodIntensity: 3, notes: "private", createdAt: today, updatedAt: today },
+    ]);
+    vi.mocked(invokeLLM).mockResolvedValue({
+      id: "r1",
+      created: 0,
+      model: "test",
+      choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: JSON.stringify({ category: "coping", text: "What helped, even a little?" }) } }],
+    });
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    const prompt = await caller.prompts.generate({ date: today });
+    expect(prompt).toMatchObject({ userId: 1, category: "coping", source: "generated" });
+    expect(db.setDailyPrompt).toHaveBeenCalledWith(1, today, 99);
+    const [{ messages }] = vi.mocked(invokeLLM).mock.calls[0];
+    expect(JSON.stringify(messages)).toContain("sad (3/10)");
+    // Mood notes stay out of the request
+    expect(JSON.stringify(messages)).not.toContain("private");
+  });
+
+  it("is unavailable without an LLM key", async () => {
+    ENV.forgeApiKey = "";
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.prompts.generate({ date: today })).rejects.toMatchObject({ code: "PRECONDITION_FAILED" });
+    expect(invokeLLM).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+import { PROMPT_CATEGORIES } from "@shared/const";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import type { WritingPrompt } from "../drizzle/schema";
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { invokeLLM } from "./_core/llm";
+
+// How far back rotation looks for prompts to skip; longer than any realistic library
+const ROTATION_HISTORY_DAYS = 365;
+const MOOD_CONTEXT_DAYS = 14;
+
+const generatedPromptSchema = z.object({
+  category: z.enum(PROMPT_CATEGORIES),
+  text: z.string().trim().min(1).max(500),
+});
+
+function startOfDay(date: Date) {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+// FNV-1a: a small, stable string hash, so the same user and day always land on the same prompt
+function hashSeed(seed: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Picks a day's prompt from the pool, skipping every prompt given in the current cycle.
+ * recentIds lists earlier days' prompts, most recent first. A cycle ends once every
+ * prompt in the pool has been given; the next one starts over but never repeats the
+ * prompt given the day before.
+ */
+export function pickDailyPrompt<T extends Pick<WritingPrompt, "id">>(pool: T[], recentIds: number[], seed: string): T | undefined {
+  if (pool.length === 0) return undefined;
+  const poolIds = new Set(pool.map(prompt => prompt.id));
+  const history = recentIds.filter(id => poolIds.has(id));
+
+  // Replay the history oldest first, starting a new cycle each time the pool is used up
+  const cycle = new Set<number>();
+  for (const id of [...history].reverse()) {
+    cycle.add(id);
+    if (cycle.size === pool.length) cycle.clear();
+  }
+
+  const latest = history[0];
+  const eligible = pool.filter(prompt => !cycle.has(prompt.id) && (prompt.id !== latest || pool.length === 1));
+  const ordered = eligible.sort((a, b) => a.id - b.id);
+  return ordered[hashSeed(seed) % ordered.length];
+}
+
+/**
+ * The prompt for a user's day. The first request picks it and records it, so it stays
+ * the same for the rest of the day even as prompts are added.
+ */
+export async function getTodaysPrompt(userId: number, date: Date) {
+  const day = startOfDay(date);
+  const existing = await db.getDailyPrompt(userId, day);
+  if (existing) return existing;
+
+  const pool = await db.getPromptsForUser(userId);
+  const recentIds = await db.getRecentDailyPromptIds(userId, day, ROTATION_HISTORY_DAYS);
+  const prompt = pickDailyPrompt(pool, recentIds, `${userId}:${day.getTime()}`);
+  if (!prompt) return null;
+
+  await db.setDailyPrompt(userId, day, prompt.id);
+  return prompt;
+}
+
+export function canGeneratePrompts() {
+  return !!ENV.forgeApiKey;
+}
+
+function describeMoods(moods: Awaited<ReturnType<typeof db.getMoodHistoryByDateRange>>) {
+  if (moods.length === 0) return "No moods were recorded in the last two weeks.";
+  return moods
+    .map(mood => `${mood.date.toISOString().slice(0, 10)}: ${mood.mood} (${mood.moodIntensity}/10)`)
+    .join("\n");
+}
+
+/**
+ * Asks the LLM for a prompt suited to the user's recent moods, saves it as one of their
+ * prompts and makes it the day's prompt.
+ */
+export async function generatePrompt(userId: number, date: Date) {
+  if (!canGeneratePrompts()) {
+    throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Generated prompts are not configured" });
+  }
+
+  const day = startOfDay(date);
+  const since = new Date(day.getTime() - MOOD_CONTEXT_DAYS * 24 * 60 * 60 * 1000);
+  const moods = await db.getMoodHistoryByDateRange(userId, since, new Date(day.getTime() + 24 * 60 * 60 * 1000 - 1));
+
+  const result = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content:
+          "You write a single journaling prompt for a personal diary. Keep it to one or two sentences, " +
+          "open-ended and kind. When recent moods are low, favour gentle, grounding prompts over upbeat ones. " +
+          "Never mention the mood data directly.",
+      },
+      { role: "user", content: `Recent moods, newest first:\n${describeMoods(moods)}` },
+    ],
+    outputSchema: {
+      name: "writing_prompt",
+      strict: true,
+      schema: {
+        type: "object",
+        properties: {
+          category: { type: "string", enum: [...PROMPT_CATEGORIES] },
+          text: { type: "string" },
+        },
+        required: ["category", "text"],
+        additionalProperties: false,
+      },
+    },
+  });
+
+  const content = result.choices[0]?.message.content;
+  const raw = typeof content === "string" ? content : content?.map(part => (part.type === "text" ? part.text : "")).join("");
+  let parsed: z.infer<typeof generatedPromptSchema>;
+  try {
+    parsed = generatedPromptSchema.parse(JSON.parse(raw ?? ""));
+  } catch {
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Could not generate a prompt, please try again" });
+  }
+
+  const prompt = await db.createPrompt({ userId, category: parsed.category, text: parsed.text, source: "generated" });
+  await db.setDailyPrompt(userId, day, prompt.id);
+  return prompt;
+}
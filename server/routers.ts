@@ -1,11 +1,44 @@
-import { COOKIE_NAME } from "@shared/const";
+import { COOKIE_NAME, DIARY_TRASH_RETENTION_DAYS, PROMPT_CATEGORIES } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router, protectedProcedure } from "./_core/trpc";
+import { publicProcedure, router, protectedProcedure, adminProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import * as db from "./db";
-import { storagePut } from "./storage";
+import { requireOwnedChatThread, requireOwnedDiaryEntry, requireOwnedHabit, requireOwnedMediaFile, requireOwnedPrompt, requireOwnedRevision, requireOwnedTag } from "./ownership";
+import { deleteMediaObjects, sweepOrphanedMedia } from "./mediaCleanup";
+import { withMediaVariants } from "./mediaVariants";
+import { askAssistant, isAssistantAvailable } from "./assistant";
+import { generateInsights } from "./insights";
+import { canGeneratePrompts, generatePrompt, getTodaysPrompt } from "./prompts";
+import { searchJournal } from "./search";
+import { transcribeVoiceNote } from "./voice";
+import { mergeTags, renameTag, syncEntryTags } from "./tags";
+import { ENV } from "./_core/env";
+
+const moodSchema = z.enum(["excellent", "good", "neutral", "sad", "terrible"]);
+const contentFormatSchema = z.enum(["plain", "markdown"]);
+
+// Keyset paging shared by the diary listings; one extra row tells whether another page exists
+async function pageDiaryEntries(
+  userId: number,
+  filters: db.DiaryEntryFilters,
+  limit: number,
+  cursor?: { date: Date; id: number } | null
+) {
+  const rows = await db.getDiaryEntriesPage(userId, filters, limit + 1, cursor);
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? { date: last.date, id: last.id } : null,
+  };
+}
+
+// Offline changes carry recordedAt, when they were made; a row saved after that time wins over the replay
+function isNewerThan(updatedAt: Date, recordedAt: Date) {
+  return Math.floor(updatedAt.getTime() / 1000) > Math.floor(recordedAt.getTime() / 1000);
+}
 
 export const appRouter = router({
   system: systemRouter,
@@ -22,10 +55,31 @@ export const appRouter = router({
 
   // Diary entries
   diary: router({
+    // Newest first, paged by a (date, id) cursor so deep pages stay as cheap as the first
     list: protectedProcedure
-      .input(z.object({ limit: z.number().default(50), offset: z.number().default(0) }))
+      .input(z.object({
+        limit: z.number().min(1).max(100).default(20),
+        cursor: z.object({ date: z.date(), id: z.number() }).nullish(),
+        from: z.date().optional(),
+        to: z.date().optional(),
+        mood: moodSchema.optional(),
+        hasMedia: z.boolean().optional(),
+      }))
       .query(async ({ ctx, input }) => {
-        return db.getDiaryEntries(ctx.user.id, input.limit, input.offset);
+        const { limit, cursor, ...filters } = input;
+        return pageDiaryEntries(ctx.user.id, filters, limit, cursor);
+      }),
+
+    // Per-tag timeline, paged like list
+    listByTag: protectedProcedure
+      .input(z.object({
+        tagId: z.number(),
+        limit: z.number().min(1).max(100).default(20),
+        cursor: z.object({ date: z.date(), id: z.number() }).nullish(),
+      }))
+      .query(async ({ ctx, input }) => {
+        await requireOwnedTag(ctx.user.id, input.tagId);
+        return pageDiaryEntries(ctx.user.id, { tagId: input.tagId }, input.limit, input.cursor);
       }),
 
     getByDate: protectedProcedure
@@ -34,20 +88,203 @@ export const appRouter = router({
         return db.getDiaryEntryByDate(ctx.user.id, input.date);
       }),
 
+    listByDate: protectedProcedure
+      .input(z.object({ date: z.date() }))
+      .query(async ({ ctx, input }) => {
+        return db.getDiaryEntriesByDate(ctx.user.id, input.date);
+      }),
+
+    listByRange: protectedProcedure
+      .input(z.object({ startDate: z.date(), endDate: z.date() }))
+      .query(async ({ ctx, input }) => {
+        return db.getDiaryEntriesByDateRange(ctx.user.id, input.startDate, input.endDate);
+      }),
+
+    getById: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const entry = await requireOwnedDiaryEntry(ctx.user.id, input.id);
+        if (entry.deletedAt) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Diary entry not found" });
+        }
+        return entry;
+      }),
+
     create: protectedProcedure
-      .input(z.object({ title: z.string().optional(), content: z.string().optional(), date: z.date() }))
+      .input(z.object({ title: z.string().optional(), content: z.string().optional(), contentFormat: contentFormatSchema.optional(), date: z.date(), mood: moodSchema.optional(), moodIntensity: z.number().min(1).max(10).optional(), discardDraft: z.boolean().optional(), discardDraftVersion: z.number().int().optional(), clientId: z.string().min(1).max(64).optional(), recordedAt: z.date().optional() }))
       .mutation(async ({ ctx, input }) => {
-        return db.createDiaryEntry({ userId: ctx.user.id, ...input });
+        const { discardDraft, discardDraftVersion, recordedAt, ...entry } = input;
+        // A replayed offline create whose first attempt got through returns that entry instead of a copy
+        if (entry.clientId) {
+          const existing = await db.getDiaryEntryByClientId(ctx.user.id, entry.clientId);
+          if (existing) return existing;
+        }
+        const result = await db.createDiaryEntry({ userId: ctx.user.id, ...entry });
+        await syncEntryTags(ctx.user.id, result.id, result.content);
+        if (discardDraft) {
+          await db.deleteDiaryDraft(ctx.user.id, null);
+        } else if (discardDraftVersion !== undefined) {
+          // A replayed entry only drops the draft it was written from, not one started since
+          await db.deleteDiaryDraft(ctx.user.id, null, discardDraftVersion);
+        }
+        // Keep the day's mood snapshot in step with the mood written into the entry,
+        // unless an offline entry arrives after a newer mood was recorded for the day
+        if (input.mood) {
+          const current = recordedAt ? await db.getMoodHistoryByDate(ctx.user.id, input.date) : undefined;
+          if (!current || !recordedAt || !isNewerThan(current.updatedAt, recordedAt)) {
+            await db.upsertMoodHistory(ctx.user.id, input.date, input.mood, input.moodIntensity ?? 5, undefined, recordedAt);
+          }
+        }
+        return result;
       }),
 
     update: protectedProcedure
-      .input(z.object({ id: z.number(), title: z.string().optional(), content: z.string().optional() }))
+      .input(z.object({ id: z.number(), title: z.string().optional(), content: z.string().optional(), contentFormat: contentFormatSchema.optional(), date: z.date().optional(), mood: moodSchema.nullable().optional(), moodIntensity: z.number().min(1).max(10).nullable().optional(), expectedVersion: z.number().int().optional() }))
+      .mutation(async ({ ctx, input }) => {
+        const entry = await requireOwnedDiaryEntry(ctx.user.id, input.id);
+        if (entry.deletedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Restore this entry from the trash before editing it" });
+        }
+        // The editor sends the version it loaded; a newer one means another device saved first
+        const saved = await db.updateDiaryEntry(
+          input.id,
+          { title: input.title, content: input.content, contentFormat: input.contentFormat, date: input.date, mood: input.mood, moodIntensity: input.moodIntensity },
+          { expectedVersion: input.expectedVersion }
+        );
+        if (!saved) {
+          throw new TRPCError({ code: "CONFLICT", message: "This entry was changed on another device since you opened it" });
+        }
+        if (input.content !== undefined) {
+          await syncEntryTags(ctx.user.id, entry.id, input.content);
+        }
+        if (input.mood) {
+          await db.upsertMoodHistory(ctx.user.id, input.date ?? entry.date, input.mood, input.moodIntensity ?? entry.moodIntensity ?? 5);
+        }
+        await db.deleteDiaryDraft(ctx.user.id, entry.id);
+        return { success: true } as const;
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const entry = await requireOwnedDiaryEntry(ctx.user.id, input.id);
+        if (entry.deletedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Diary entry is already in the trash" });
+        }
+        await db.softDeleteDiaryEntry(input.id);
+        return { success: true } as const;
+      }),
+
+    restore: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const entry = await requireOwnedDiaryEntry(ctx.user.id, input.id);
+        if (!entry.deletedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Diary entry is not in the trash" });
+        }
+        await db.restoreDiaryEntry(input.id);
+        return { success: true } as const;
+      }),
+
+    purge: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const entry = await requireOwnedDiaryEntry(ctx.user.id, input.id);
+        if (!entry.deletedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Only entries in the trash can be purged" });
+        }
+        const media = await db.purgeDiaryEntries([input.id]);
+        await deleteMediaObjects(media);
+        return { success: true } as const;
+      }),
+
+    listRevisions: protectedProcedure
+      .input(z.object({ diaryEntryId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await requireOwnedDiaryEntry(ctx.user.id, input.diaryEntryId);
+        return db.getDiaryEntryRevisions(input.diaryEntryId);
+      }),
+
+    getRevision: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        return requireOwnedRevision(ctx.user.id, input.id);
+      }),
+
+    restoreRevision: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const revision = await requireOwnedRevision(ctx.user.id, input.id);
+        const entry = await requireOwnedDiaryEntry(ctx.user.id, revision.diaryEntryId);
+        if (entry.deletedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Restore this entry from the trash before editing it" });
+        }
+        // The version being replaced is itself snapshotted, so a rollback can be undone
+        await db.updateDiaryEntry(entry.id, { title: revision.title, content: revision.content, contentFormat: revision.contentFormat });
+        await syncEntryTags(ctx.user.id, entry.id, revision.content);
+        return { success: true } as const;
+      }),
+
+    listTrash: protectedProcedure.query(async ({ ctx }) => {
+      // Entries past the retention window are purged lazily whenever the trash is opened
+      const cutoff = new Date(Date.now() - DIARY_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const media = await db.purgeExpiredDiaryEntries(ctx.user.id, cutoff);
+      await deleteMediaObjects(media);
+      return db.getDeletedDiaryEntries(ctx.user.id);
+    }),
+  }),
+
+  // Autosaved work in progress: one draft per entry being edited, plus one for a new entry
+  drafts: router({
+    get: protectedProcedure
+      .input(z.object({ diaryEntryId: z.number().nullable() }))
+      .query(async ({ ctx, input }) => {
+        if (input.diaryEntryId !== null) {
+          await requireOwnedDiaryEntry(ctx.user.id, input.diaryEntryId);
+        }
+        const draft = await db.getDiaryDraft(ctx.user.id, input.diaryEntryId);
+        if (!draft) return null;
+        const pendingMedia = await withMediaVariants(await db.getPendingMediaFiles(ctx.user.id, draft.mediaIds ?? []));
+        return { ...draft, pendingMedia };
+      }),
+
+    save: protectedProcedure
+      .input(z.object({
+        diaryEntryId: z.number().nullable(),
+        title: z.string().max(255),
+        content: z.string(),
+        contentFormat: contentFormatSchema,
+        date: z.date(),
+        mood: moodSchema.nullable(),
+        moodIntensity: z.number().min(1).max(10).nullable(),
+        mediaIds: z.array(z.number()).max(100),
+        entryVersion: z.number().int().nullable(),
+        // Version of the draft this device last saw, or null if it knows of none
+        expectedVersion: z.number().int().nullable(),
+      }))
       .mutation(async ({ ctx, input }) => {
-        const entry = await db.getDiaryEntryByDate(ctx.user.id, new Date());
-        if (!entry || entry.id !== input.id) {
-          throw new TRPCError({ code: "FORBIDDEN" });
+        const { expectedVersion, ...draft } = input;
+        if (draft.diaryEntryId !== null) {
+          await requireOwnedDiaryEntry(ctx.user.id, draft.diaryEntryId);
+        }
+        const conflict = () => new TRPCError({ code: "CONFLICT", message: "This draft was changed on another device" });
+        const existing = await db.getDiaryDraft(ctx.user.id, draft.diaryEntryId);
+        if (existing && existing.version !== expectedVersion) {
+          throw conflict();
+        }
+        // A draft discarded elsewhere is started afresh
+        const saved = await db.saveDiaryDraft({ userId: ctx.user.id, ...draft }, existing ? existing.version : null);
+        if (!saved) {
+          throw conflict();
         }
-        return db.updateDiaryEntry(input.id, { title: input.title, content: input.content });
+        return saved;
+      }),
+
+    discard: protectedProcedure
+      .input(z.object({ diaryEntryId: z.number().nullable() }))
+      .mutation(async ({ ctx, input }) => {
+        await db.deleteDiaryDraft(ctx.user.id, input.diaryEntryId);
+        return { success: true } as const;
       }),
   }),
 
@@ -56,36 +293,105 @@ export const appRouter = router({
     listByUser: protectedProcedure
       .input(z.object({ limit: z.number().default(100) }))
       .query(async ({ ctx, input }) => {
-        return db.getMediaFilesByUser(ctx.user.id, input.limit);
+        return withMediaVariants(await db.getMediaFilesByUser(ctx.user.id, input.limit));
+      }),
+
+    // Infinite-scroll feed for the gallery, newest first
+    listGallery: protectedProcedure
+      .input(z.object({
+        limit: z.number().min(1).max(60).default(30),
+        cursor: z.object({ date: z.date(), id: z.number() }).nullish(),
+        fileType: z.enum(["image", "video"]).optional(),
+        month: z.string().regex(/^\d{4}-\d{2}$/).optional(),
+      }))
+      .query(async ({ ctx, input }) => {
+        const { limit, cursor, ...filters } = input;
+        // One extra row tells whether another page exists
+        const rows = await db.getMediaGalleryPage(ctx.user.id, filters, limit + 1, cursor);
+        const items = rows.slice(0, limit);
+        const last = items[items.length - 1];
+        return {
+          items: await withMediaVariants(items),
+          nextCursor: rows.length > limit && last ? { date: last.mediaDate, id: last.id } : null,
+        };
+      }),
+
+    galleryMonths: protectedProcedure
+      .input(z.object({ fileType: z.enum(["image", "video"]).optional() }))
+      .query(async ({ ctx, input }) => {
+        return db.getMediaGalleryMonths(ctx.user.id, input.fileType);
       }),
 
     listByEntry: protectedProcedure
       .input(z.object({ diaryEntryId: z.number() }))
       .query(async ({ ctx, input }) => {
-        return db.getMediaFilesByDiaryEntry(input.diaryEntryId);
+        await requireOwnedDiaryEntry(ctx.user.id, input.diaryEntryId);
+        return withMediaVariants(await db.getMediaFilesByDiaryEntry(input.diaryEntryId));
+      }),
+
+    // Links media uploaded before the entry existed (e.g. while drafting) to the saved entry
+    attachToEntry: protectedProcedure
+      .input(z.object({ mediaIds: z.array(z.number()).min(1), diaryEntryId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await requireOwnedDiaryEntry(ctx.user.id, input.diaryEntryId);
+        await db.attachMediaFilesToDiaryEntry(input.mediaIds, ctx.user.id, input.diaryEntryId);
+        return withMediaVariants(await db.getMediaFilesByDiaryEntry(input.diaryEntryId));
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const file = await requireOwnedMediaFile(ctx.user.id, input.id);
+        if (file.deletedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Restore this entry from the trash before changing its media" });
+        }
+        await db.deleteMediaFile(file.id);
+        await deleteMediaObjects([file]);
+        return { success: true } as const;
       }),
 
-    upload: protectedProcedure
-      .input(z.object({ fileName: z.string(), fileData: z.string(), fileType: z.enum(["image", "video"]), mimeType: z.string(), diaryEntryId: z.number().optional() }))
+    // Swaps in a freshly uploaded file at the same place, then removes the old one
+    replace: protectedProcedure
+      .input(z.object({ id: z.number(), replacementId: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        try {
-          const buffer = Buffer.from(input.fileData, "base64");
-          const fileKey = `${ctx.user.id}/media/${Date.now()}-${input.fileName}`;
-          const { url } = await storagePut(fileKey, buffer, input.mimeType);
-          
-          return db.createMediaFile({
-            userId: ctx.user.id,
-            diaryEntryId: input.diaryEntryId,
-            fileKey,
-            fileUrl: url,
-            fileType: input.fileType,
-            mimeType: input.mimeType,
-            fileName: input.fileName,
-            fileSize: buffer.length,
-          });
-        } catch (error) {
-          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to upload media" });
+        const file = await requireOwnedMediaFile(ctx.user.id, input.id);
+        const replacement = await requireOwnedMediaFile(ctx.user.id, input.replacementId);
+        if (file.id === replacement.id) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A file cannot replace itself" });
+        }
+        if (file.deletedAt || replacement.deletedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Restore this entry from the trash before changing its media" });
+        }
+        if (file.diaryEntryId !== null) {
+          await db.attachMediaFilesToDiaryEntry([replacement.id], ctx.user.id, file.diaryEntryId);
         }
+        await db.deleteMediaFile(file.id);
+        await deleteMediaObjects([file]);
+        const [updated] = await withMediaVariants([await requireOwnedMediaFile(ctx.user.id, replacement.id)]);
+        return updated;
+      }),
+
+    sweepOrphans: adminProcedure
+      .input(z.object({ olderThanDays: z.number().min(0).optional() }))
+      .mutation(async ({ input }) => {
+        return sweepOrphanedMedia(input.olderThanDays ?? ENV.mediaOrphanRetentionDays);
+      }),
+  }),
+
+  // Voice notes: transcripts of recorded audio
+  voice: router({
+    transcribe: protectedProcedure
+      .input(z.object({ mediaFileId: z.number(), language: z.string().min(2).max(16).optional() }))
+      .mutation(async ({ ctx, input }) => {
+        const file = await requireOwnedMediaFile(ctx.user.id, input.mediaFileId);
+        return transcribeVoiceNote(file, input.language);
+      }),
+
+    getTranscript: protectedProcedure
+      .input(z.object({ mediaFileId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await requireOwnedMediaFile(ctx.user.id, input.mediaFileId);
+        return (await db.getAudioTranscript(input.mediaFileId)) ?? null;
       }),
   }),
 
@@ -104,12 +410,14 @@ export const appRouter = router({
     update: protectedProcedure
       .input(z.object({ id: z.number(), name: z.string().optional(), description: z.string().optional(), color: z.string().optional(), icon: z.string().optional() }))
       .mutation(async ({ ctx, input }) => {
+        await requireOwnedHabit(ctx.user.id, input.id);
         return db.updateHabit(input.id, { name: input.name, description: input.description, color: input.color, icon: input.icon });
       }),
 
     archive: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
+        await requireOwnedHabit(ctx.user.id, input.id);
         return db.updateHabit(input.id, { isActive: 0 });
       }),
   }),
@@ -125,13 +433,21 @@ export const appRouter = router({
     getByHabitAndRange: protectedProcedure
       .input(z.object({ habitId: z.number(), startDate: z.date(), endDate: z.date() }))
       .query(async ({ ctx, input }) => {
+        await requireOwnedHabit(ctx.user.id, input.habitId);
         return db.getHabitCompletionsByHabitAndDateRange(input.habitId, input.startDate, input.endDate);
       }),
 
     toggle: protectedProcedure
-      .input(z.object({ habitId: z.number(), date: z.date(), completed: z.boolean() }))
+      .input(z.object({ habitId: z.number(), date: z.date(), completed: z.boolean(), recordedAt: z.date().optional() }))
       .mutation(async ({ ctx, input }) => {
-        return db.upsertHabitCompletion(input.habitId, ctx.user.id, input.date, input.completed);
+        await requireOwnedHabit(ctx.user.id, input.habitId);
+        if (input.recordedAt) {
+          const existing = await db.getHabitCompletionByDate(input.habitId, input.date);
+          if (existing && isNewerThan(existing.updatedAt, input.recordedAt)) {
+            throw new TRPCError({ code: "CONFLICT", message: "This habit was checked in again on another device" });
+          }
+        }
+        return db.upsertHabitCompletion(input.habitId, ctx.user.id, input.date, input.completed, input.recordedAt);
       }),
   }),
 
@@ -150,9 +466,15 @@ export const appRouter = router({
       }),
 
     record: protectedProcedure
-      .input(z.object({ date: z.date(), mood: z.enum(["excellent", "good", "neutral", "sad", "terrible"]), moodIntensity: z.number().min(1).max(10), notes: z.string().optional() }))
+      .input(z.object({ date: z.date(), mood: moodSchema, moodIntensity: z.number().min(1).max(10), notes: z.string().optional(), recordedAt: z.date().optional() }))
       .mutation(async ({ ctx, input }) => {
-        return db.upsertMoodHistory(ctx.user.id, input.date, input.mood, input.moodIntensity, input.notes);
+        if (input.recordedAt) {
+          const existing = await db.getMoodHistoryByDate(ctx.user.id, input.date);
+          if (existing && isNewerThan(existing.updatedAt, input.recordedAt)) {
+            throw new TRPCError({ code: "CONFLICT", message: "A newer mood was recorded for this day on another device" });
+          }
+        }
+        return db.upsertMoodHistory(ctx.user.id, input.date, input.mood, input.moodIntensity, input.notes, input.recordedAt);
       }),
   }),
 
@@ -161,43 +483,110 @@ export const appRouter = router({
     getByPeriod: protectedProcedure
       .input(z.object({ period: z.enum(["week", "month", "year"]), periodStart: z.date(), periodEnd: z.date() }))
       .query(async ({ ctx, input }) => {
-        return db.getMoodInsightsByPeriod(ctx.user.id, input.period, input.periodStart, input.periodEnd);
+        return (await db.getMoodInsightsByPeriod(ctx.user.id, input.period, input.periodStart, input.periodEnd)) ?? null;
       }),
 
+    // Cached per period until its moods, entries or habits change
     generateInsights: protectedProcedure
       .input(z.object({ period: z.enum(["week", "month", "year"]), periodStart: z.date(), periodEnd: z.date() }))
       .mutation(async ({ ctx, input }) => {
-        const moods = await db.getMoodHistoryByDateRange(ctx.user.id, input.periodStart, input.periodEnd);
-        const habits = await db.getHabitsByUser(ctx.user.id);
-        
-        if (moods.length === 0) {
-          throw new TRPCError({ code: "BAD_REQUEST", message: "No mood data available for this period" });
-        }
-
-        // Calculate mood distribution
-        const moodCounts: Record<string, number> = {};
-        let totalIntensity = 0;
-        moods.forEach(m => {
-          moodCounts[m.mood || "unknown"] = (moodCounts[m.mood || "unknown"] || 0) + 1;
-          totalIntensity += m.moodIntensity || 0;
-        });
-        
-        const averageMoodScore = (totalIntensity / moods.length).toFixed(2);
-        const dominantMood = Object.entries(moodCounts).sort(([, a], [, b]) => b - a)[0]?.[0] || "neutral";
-
-        const insight = {
-          userId: ctx.user.id,
-          period: input.period as "week" | "month" | "year",
-          periodStart: input.periodStart,
-          periodEnd: input.periodEnd,
-          averageMoodScore: averageMoodScore as any,
-          dominantMood,
-          moodDistribution: moodCounts as any,
-          topHabitsCorrelation: JSON.stringify(habits.slice(0, 3).map(h => ({ id: h.id, name: h.name }))),
-          insights: `During this ${input.period}, your dominant mood was ${dominantMood} with an average intensity of ${averageMoodScore}/10. You tracked ${moods.length} mood entries.`,
-        };
+        return generateInsights(ctx.user.id, input.period, input.periodStart, input.periodEnd);
+      }),
+  }),
 
-        return db.createMoodInsight(insight);
+  // #tags and @people parsed from entry content
+  tags: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return db.getTagsWithCounts(ctx.user.id);
+    }),
+
+    rename: protectedProcedure
+      .input(z.object({ id: z.number(), name: z.string().trim().min(1).max(100) }))
+      .mutation(async ({ ctx, input }) => {
+        const tag = await requireOwnedTag(ctx.user.id, input.id);
+        return renameTag(tag, input.name);
+      }),
+
+    merge: protectedProcedure
+      .input(z.object({ sourceId: z.number(), targetId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const source = await requireOwnedTag(ctx.user.id, input.sourceId);
+        const target = await requireOwnedTag(ctx.user.id, input.targetId);
+        return mergeTags(source, target);
+      }),
+  }),
+
+  // Daily writing prompts: the shared library plus each user's own
+  prompts: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return db.getPromptsForUser(ctx.user.id);
+    }),
+
+    // One prompt per day, rotated per user without repeating until the pool is used up
+    today: protectedProcedure
+      .input(z.object({ date: z.date() }))
+      .query(async ({ ctx, input }) => {
+        return { prompt: await getTodaysPrompt(ctx.user.id, input.date), canGenerate: canGeneratePrompts() };
+      }),
+
+    create: protectedProcedure
+      .input(z.object({ category: z.enum(PROMPT_CATEGORIES), text: z.string().trim().min(1).max(500) }))
+      .mutation(async ({ ctx, input }) => {
+        return db.createPrompt({ userId: ctx.user.id, ...input, source: "user" });
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await requireOwnedPrompt(ctx.user.id, input.id);
+        await db.deletePrompt(input.id);
+        return { success: true } as const;
+      }),
+
+    // Replaces the day's prompt with one written for the user's recent moods
+    generate: protectedProcedure
+      .input(z.object({ date: z.date() }))
+      .mutation(async ({ ctx, input }) => {
+        return generatePrompt(ctx.user.id, input.date);
+      }),
+  }),
+
+  // Full-text search across entries, mood notes and habit notes
+  search: router({
+    query: protectedProcedure
+      .input(z.object({ q: z.string().trim().min(1).max(200), limit: z.number().min(1).max(50).default(20) }))
+      .query(async ({ ctx, input }) => {
+        return searchJournal(ctx.user.id, input.q, input.limit);
+      }),
+  }),
+
+  // Reflection assistant: conversations answered from the user's own journal
+  assistant: router({
+    threads: protectedProcedure.query(async ({ ctx }) => {
+      return { threads: await db.getChatThreadsByUser(ctx.user.id), available: isAssistantAvailable() };
+    }),
+
+    messages: protectedProcedure
+      .input(z.object({ threadId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await requireOwnedChatThread(ctx.user.id, input.threadId);
+        return db.getChatMessages(input.threadId);
+      }),
+
+    // Starts a new thread when threadId is omitted
+    send: protectedProcedure
+      .input(z.object({ threadId: z.number().optional(), content: z.string().trim().min(1).max(4000) }))
+      .mutation(async ({ ctx, input }) => {
+        const thread = input.threadId === undefined ? null : await requireOwnedChatThread(ctx.user.id, input.threadId);
+        return askAssistant(ctx.user.id, thread, input.content);
+      }),
+
+    deleteThread: protectedProcedure
+      .input(z.object({ threadId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await requireOwnedChatThread(ctx.user.id, input.threadId);
+        await db.deleteChatThread(input.threadId);
+        return { success: true } as const;
       }),
   }),
 });
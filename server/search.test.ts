@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    searchDiaryEntries: vi.fn(),
+    searchMoodNotes: vi.fn(),
+    searchHabitCompletionNotes: vi.fn(),
+  };
+});
+
+import * as db from "./db";
+import { buildSnippet, searchJournal, searchTerms, toBooleanQuery } from "./search";
+
+describe("search query building", () => {
+  it("strips boolean-mode operators and requires every term as a prefix", () => {
+    const terms = searchTerms('  +Beach -"sunset" (walk) beach ');
+    expect(terms).toEqual(["beach", "sunset", "walk"]);
+    expect(toBooleanQuery(terms)).toBe("+beach* +sunset* +walk*");
+  });
+
+  it("returns no terms for operator-only input", () => {
+    expect(searchTerms("+-*")).toEqual([]);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("highlights prefix matches inside a window around the first hit", () => {
+    const text = `${"filler ".repeat(40)}We walked along the beaches at dawn. ${"more ".repeat(40)}`;
+    const parts = buildSnippet(text, ["beach"], 40);
+
+    expect(parts[0]).toEqual({ text: "…", highlight: false });
+    expect(parts[parts.length - 1]).toEqual({ text: "…", highlight: false });
+    expect(parts.filter(part => part.highlight)).toEqual([{ text: "beaches", highlight: true }]);
+  });
+
+  it("keeps short text whole", () => {
+    expect(buildSnippet("Morning run felt great", ["run"])).toEqual([
+      { text: "Morning ", highlight: false },
+      { text: "run", highlight: true },
+      { text: " felt great", highlight: false },
+    ]);
+  });
+});
+
+describe("searchJournal", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("merges results from every source by relevance", async () => {
+    const date = new Date("2025-03-01T09:00:00Z");
+    vi.mocked(db.searchDiaryEntries).mockResolvedValue([{ id: 1, title: "Beach day", content: "Sun and beach", date, score: 2 }]);
+    vi.mocked(db.searchMoodNotes).mockResolvedValue([{ id: 2, mood: "good", notes: "beach calmed me", date, score: 5 }]);
+    vi.mocked(db.searchHabitCompletionNotes).mockResolvedValue([{ id: 3, habitId: 9, habitName: "Swim", notes: "beach swim", date, score: 1 }]);
+
+    const results = await searchJournal(1, "beach", 10);
+
+    expect(db.searchDiaryEntries).toHaveBeenCalledWith(1, "+beach*", 10);
+    expect(results.map(result => [result.type, result.targetId])).toEqual([["mood", null], ["entry", 1], ["habit", 9]]);
+  });
+
+  it("skips the database for empty queries", async () => {
+    expect(await searchJournal(1, "***", 10)).toEqual([]);
+    expect(db.searchDiaryEntries).not.toHaveBeenCalled();
+  });
+});
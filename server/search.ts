@@ -0,0 +1,121 @@
+import * as db from "./db";
+
+export type SnippetPart = { text: string; highlight: boolean };
+
+// Characters with special meaning in MySQL boolean-mode full-text queries
+const BOOLEAN_OPERATORS = /[+\-><()~*"@]+/g;
+const SNIPPET_RADIUS = 80;
+
+/**
+ * Splits a user query into lowercase search terms, dropping boolean-mode operators.
+ */
+export function searchTerms(query: string): string[] {
+  const terms = query.replace(BOOLEAN_OPERATORS, " ").toLowerCase().split(/\s+/).filter(Boolean);
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Boolean-mode query where every term must match, as a prefix so results
+ * appear while the user is still typing.
+ */
+export function toBooleanQuery(terms: string[]): string {
+  return terms.map(term => `+${term}*`).join(" ");
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Cuts a window of text around the first matching term and marks every term
+ * occurrence (word prefixes, like the full-text query) inside it.
+ */
+export function buildSnippet(text: string, terms: string[], radius = SNIPPET_RADIUS): SnippetPart[] {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  if (!normalized) return [];
+  if (terms.length === 0) return [{ text: normalized.slice(0, radius * 2), highlight: false }];
+
+  const pattern = new RegExp(`\\b(${terms.map(escapeRegExp).join("|")})\\w*`, "gi");
+  const first = normalized.search(pattern);
+
+  let start = first < 0 ? 0 : Math.max(0, first - radius);
+  let end = Math.min(normalized.length, start + radius * 2);
+  // Avoid cutting words in half at either edge
+  if (start > 0) start = normalized.indexOf(" ", start) + 1 || start;
+  if (end < normalized.length) end = normalized.lastIndexOf(" ", end) > start ? normalized.lastIndexOf(" ", end) : end;
+
+  const window = normalized.slice(start, end);
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: "…", highlight: false });
+
+  let cursor = 0;
+  for (const match of Array.from(window.matchAll(pattern))) {
+    const index = match.index ?? 0;
+    if (index > cursor) parts.push({ text: window.slice(cursor, index), highlight: false });
+    parts.push({ text: match[0], highlight: true });
+    cursor = index + match[0].length;
+  }
+  if (cursor < window.length) parts.push({ text: window.slice(cursor), highlight: false });
+  if (end < normalized.length) parts.push({ text: "…", highlight: false });
+
+  return parts;
+}
+
+export type SearchResult = {
+  type: "entry" | "mood" | "habit";
+  id: number;
+  // Entry id for entries, habit id for habit notes; mood notes have no page of their own
+  targetId: number | null;
+  title: string;
+  date: Date;
+  snippet: SnippetPart[];
+  score: number;
+};
+
+/**
+ * Searches entries, mood notes and habit notes together and ranks them by
+ * MySQL relevance. Scores come from separate indexes, so the merge is approximate.
+ */
+export async function searchJournal(userId: number, query: string, limit: number): Promise<SearchResult[]> {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+  const booleanQuery = toBooleanQuery(terms);
+
+  const [entries, moods, habitNotes] = await Promise.all([
+    db.searchDiaryEntries(userId, booleanQuery, limit),
+    db.searchMoodNotes(userId, booleanQuery, limit),
+    db.searchHabitCompletionNotes(userId, booleanQuery, limit),
+  ]);
+
+  const results: SearchResult[] = [
+    ...entries.map(entry => ({
+      type: "entry" as const,
+      id: entry.id,
+      targetId: entry.id,
+      title: entry.title || "Untitled entry",
+      date: entry.date,
+      snippet: buildSnippet(entry.content || entry.title || "", terms),
+      score: entry.score,
+    })),
+    ...moods.map(mood => ({
+      type: "mood" as const,
+      id: mood.id,
+      targetId: null,
+      title: `Feeling ${mood.mood}`,
+      date: mood.date,
+      snippet: buildSnippet(mood.notes ?? "", terms),
+      score: mood.score,
+    })),
+    ...habitNotes.map(note => ({
+      type: "habit" as const,
+      id: note.id,
+      targetId: note.habitId,
+      title: note.habitName,
+      date: note.date,
+      snippet: buildSnippet(note.notes ?? "", terms),
+      score: note.score,
+    })),
+  ];
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
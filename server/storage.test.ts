@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { ENV } from "./_core/env";
+import { canReadKey, setStorageDriver, storageGet, storagePut, StorageUnsupportedError } from "./storage";
+import { createForgeDriver } from "./storage/forgeDriver";
+import { createLocalDriver } from "./storage/localDriver";
+
+describe("Local storage driver", () => {
+  let rootDir: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(os.tmpdir(), "storage-test-"));
+    setStorageDriver(createLocalDriver(rootDir));
+  });
+
+  afterEach(async () => {
+    setStorageDriver(null);
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("writes buffers to disk and returns an authenticated route url", async () => {
+    const result = await storagePut("/1/media/note.txt", Buffer.from("hello"), "text/plain");
+
+    expect(result).toEqual({ key: "1/media/note.txt", url: "/api/storage/1/media/note.txt" });
+    expect(await readFile(path.join(rootDir, "1/media/note.txt"), "utf8")).toBe("hello");
+  });
+
+  it("streams blobs to disk", async () => {
+    await storagePut("1/media/clip.bin", new Blob([new Uint8Array([1, 2, 3])]), "application/octet-stream");
+
+    const written = await readFile(path.join(rootDir, "1/media/clip.bin"));
+    expect(Array.from(written)).toEqual([1, 2, 3]);
+  });
+
+  it("encodes keys in the returned url", async () => {
+    const result = await storageGet("1/media/my photo.jpg");
+    expect(result.url).toBe("/api/storage/1/media/my%20photo.jpg");
+  });
+
+  it("refuses keys that escape the storage directory", async () => {
+    await expect(storagePut("../outside.txt", "nope")).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe("Storage access", () => {
+  it("lets users read their own keys and the shared folders only", () => {
+    expect(canReadKey(1, "1/media/photo.jpg")).toBe(true);
+    expect(canReadKey(1, "generated/art.png")).toBe(true);
+    expect(canReadKey(1, "2/media/photo.jpg")).toBe(false);
+    expect(canReadKey(1, "exports/1/backup.zip")).toBe(false);
+    expect(canReadKey(1, "media/photo.jpg")).toBe(false);
+  });
+
+  it("reports deletes the forge proxy cannot do instead of pretending they succeeded", async () => {
+    const { forgeApiUrl, forgeApiKey } = ENV;
+    ENV.forgeApiUrl = "https://forge.example.com";
+    ENV.forgeApiKey = "test-key";
+    try {
+      await expect(createForgeDriver().delete("1/media/photo.jpg")).rejects.toBeInstanceOf(StorageUnsupportedError);
+    } finally {
+      Object.assign(ENV, { forgeApiUrl, forgeApiKey });
+    }
+  });
+});
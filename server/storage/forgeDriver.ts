@@ -1,7 +1,8 @@
 // Preconfigured storage helpers for Manus WebDev templates
 // Uses the Biz-provided storage proxy (Authorization: Bearer <token>)
 
-import { ENV } from './_core/env';
+import { ENV } from '../_core/env';
+import { StorageUnsupportedError, type StorageData, type StorageDriver, type StoredObject } from './types';
 
 type StorageConfig = { baseUrl: string; apiKey: string };
 
@@ -50,14 +51,17 @@ function normalizeKey(relKey: string): string {
 }
 
 function toFormData(
-  data: Buffer | Uint8Array | string,
+  data: StorageData,
   contentType: string,
   fileName: string
 ): FormData {
+  // File-backed Blobs (fs.openAsBlob) are streamed from disk rather than buffered
   const blob =
-    typeof data === "string"
-      ? new Blob([data], { type: contentType })
-      : new Blob([data as any], { type: contentType });
+    data instanceof Blob
+      ? data
+      : typeof data === "string"
+        ? new Blob([data], { type: contentType })
+        : new Blob([data as any], { type: contentType });
   const form = new FormData();
   form.append("file", blob, fileName || "file");
   return form;
@@ -67,11 +71,11 @@ function buildAuthHeaders(apiKey: string): HeadersInit {
   return { Authorization: `Bearer ${apiKey}` };
 }
 
-export async function storagePut(
+async function forgePut(
   relKey: string,
-  data: Buffer | Uint8Array | string,
-  contentType = "application/octet-stream"
-): Promise<{ key: string; url: string }> {
+  data: StorageData,
+  contentType: string
+): Promise<StoredObject> {
   const { baseUrl, apiKey } = getStorageConfig();
   const key = normalizeKey(relKey);
   const uploadUrl = buildUploadUrl(baseUrl, key);
@@ -92,7 +96,7 @@ export async function storagePut(
   return { key, url };
 }
 
-export async function storageGet(relKey: string): Promise<{ key: string; url: string; }> {
+async function forgeGet(relKey: string): Promise<StoredObject> {
   const { baseUrl, apiKey } = getStorageConfig();
   const key = normalizeKey(relKey);
   return {
@@ -100,3 +104,14 @@ export async function storageGet(relKey: string): Promise<{ key: string; url: st
     url: await buildDownloadUrl(baseUrl, key, apiKey),
   };
 }
+
+// The storage proxy has no delete endpoint; objects are left for its own retention
+async function forgeDelete(): Promise<void> {
+  throw new StorageUnsupportedError("forge", "delete objects");
+}
+
+export function createForgeDriver(): StorageDriver {
+  // Fail at startup rather than on the first upload
+  getStorageConfig();
+  return { name: "forge", put: forgePut, get: forgeGet, delete: forgeDelete };
+}
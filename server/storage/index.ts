@@ -0,0 +1,126 @@
+import { HttpError, NotFoundError } from "@shared/_core/errors";
+import type { Express, Request, Response } from "express";
+import { ENV } from "../_core/env";
+import { sdk } from "../_core/sdk";
+import { createForgeDriver } from "./forgeDriver";
+import { createLocalDriver } from "./localDriver";
+import { createS3Driver } from "./s3Driver";
+import type { StorageData, StorageDriver, StoredObject, StoredObjectInfo } from "./types";
+
+export type { StorageData, StorageDriver, StoredObject, StoredObjectInfo } from "./types";
+export { StorageUnsupportedError } from "./types";
+
+let _driver: StorageDriver | null = null;
+
+function createStorageDriver(): StorageDriver {
+  const name = ENV.storageDriver || (ENV.forgeApiUrl && ENV.forgeApiKey ? "forge" : "local");
+
+  switch (name) {
+    case "forge":
+      return createForgeDriver();
+    case "local":
+      return createLocalDriver(ENV.storageLocalDir);
+    case "s3":
+      return createS3Driver({
+        bucket: ENV.s3Bucket,
+        region: ENV.s3Region,
+        endpoint: ENV.s3Endpoint,
+        accessKeyId: ENV.s3AccessKeyId,
+        secretAccessKey: ENV.s3SecretAccessKey,
+        forcePathStyle: ENV.s3ForcePathStyle,
+        publicUrl: ENV.s3PublicUrl,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${name}": expected forge, local or s3`);
+  }
+}
+
+export function getStorageDriver(): StorageDriver {
+  if (!_driver) {
+    _driver = createStorageDriver();
+  }
+  return _driver;
+}
+
+// Swaps the active driver, e.g. for tests
+export function setStorageDriver(driver: StorageDriver | null) {
+  _driver = driver;
+}
+
+function normalizeKey(relKey: string): string {
+  return relKey.replace(/^\/+/, "");
+}
+
+export async function storagePut(
+  relKey: string,
+  data: StorageData,
+  contentType = "application/octet-stream"
+): Promise<StoredObject> {
+  return getStorageDriver().put(normalizeKey(relKey), data, contentType);
+}
+
+export async function storageGet(relKey: string): Promise<StoredObject> {
+  return getStorageDriver().get(normalizeKey(relKey));
+}
+
+export async function storageDelete(relKey: string): Promise<void> {
+  await getStorageDriver().delete(normalizeKey(relKey));
+}
+
+// Server-side download of an object, e.g. to hand a recording to another service
+export async function storageRead(relKey: string): Promise<Buffer> {
+  const driver = getStorageDriver();
+  const key = normalizeKey(relKey);
+  if (driver.read) {
+    return driver.read(key);
+  }
+
+  const { url } = await driver.get(key);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Storage download failed (${response.status} ${response.statusText}) for ${key}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+// Yields nothing for drivers that cannot enumerate their objects
+export async function* storageList(prefix?: string): AsyncIterable<StoredObjectInfo> {
+  const driver = getStorageDriver();
+  if (driver.list) {
+    yield* driver.list(prefix);
+  }
+}
+
+// Top-level folders any signed-in user may read; everything else must be under "<userId>/"
+const SHARED_KEY_PREFIXES = ["generated"];
+
+export function canReadKey(userId: number, key: string): boolean {
+  const owner = key.split("/")[0];
+  return owner === String(userId) || SHARED_KEY_PREFIXES.includes(owner);
+}
+
+export function registerStorageRoutes(app: Express) {
+  app.get("/api/storage/*", async (req: Request, res: Response) => {
+    try {
+      const driver = getStorageDriver();
+      if (!driver.serve) {
+        throw NotFoundError("File not found");
+      }
+
+      const user = await sdk.authenticateRequest(req);
+      const key = normalizeKey(req.params[0] ?? "");
+      if (!key || !canReadKey(user.id, key)) {
+        throw NotFoundError("File not found");
+      }
+
+      await driver.serve(key, res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("[Storage] Failed to serve file", error);
+      res.status(500).json({ error: "Failed to serve file" });
+    }
+  });
+}
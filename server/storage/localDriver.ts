@@ -0,0 +1,85 @@
+import { NotFoundError } from "@shared/_core/errors";
+import { createWriteStream } from "fs";
+import { mkdir, readFile, readdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import type { StorageData, StorageDriver, StoredObjectInfo } from "./types";
+import { storageRouteUrl } from "./types";
+
+/**
+ * Stores objects as plain files under rootDir, for self-hosted installs.
+ * Files are only reachable through the authenticated /api/storage route.
+ */
+export function createLocalDriver(rootDir: string): StorageDriver {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw NotFoundError("File not found");
+    }
+    return filePath;
+  };
+
+  const write = async (filePath: string, data: StorageData) => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    if (data instanceof Blob) {
+      await pipeline(Readable.fromWeb(data.stream() as WebReadableStream), createWriteStream(filePath));
+    } else {
+      await writeFile(filePath, data);
+    }
+  };
+
+  async function* walk(dir: string): AsyncIterable<StoredObjectInfo> {
+    const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        yield* walk(fullPath);
+      } else if (entry.isFile()) {
+        const info = await stat(fullPath);
+        const key = path.relative(root, fullPath).split(path.sep).join("/");
+        yield { key, size: info.size, lastModified: info.mtime };
+      }
+    }
+  }
+
+  return {
+    name: "local",
+
+    async put(key, data) {
+      await write(resolveKey(key), data);
+      return { key, url: storageRouteUrl(key) };
+    },
+
+    async get(key) {
+      return { key, url: storageRouteUrl(key) };
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+
+    async read(key) {
+      return readFile(resolveKey(key)).catch(() => {
+        throw NotFoundError("File not found");
+      });
+    },
+
+    list(prefix = "") {
+      return walk(prefix ? resolveKey(prefix) : root);
+    },
+
+    async serve(key, res) {
+      const filePath = resolveKey(key);
+      const info = await stat(filePath).catch(() => null);
+      if (!info?.isFile()) {
+        throw NotFoundError("File not found");
+      }
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.sendFile(filePath);
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { DeleteObjectCommand, GetObjectCommand, ListObjectsV2Command, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import type { StorageDriver, StoredObjectInfo } from "./types";
+import { storageRouteUrl } from "./types";
+
+export type S3DriverConfig = {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  // Public base URL (bucket website or CDN); without it objects go through /api/storage
+  publicUrl?: string;
+};
+
+const PRESIGNED_URL_TTL_SECONDS = 15 * 60;
+
+/**
+ * Native S3 driver, also usable with MinIO and other S3-compatible servers
+ * through a custom endpoint and path-style addressing.
+ */
+export function createS3Driver(config: S3DriverConfig): StorageDriver {
+  if (!config.bucket) {
+    throw new Error("S3 storage requires S3_BUCKET to be set");
+  }
+
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint || undefined,
+    forcePathStyle: config.forcePathStyle,
+    credentials:
+      config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+  });
+  const publicUrl = config.publicUrl?.replace(/\/+$/, "");
+
+  const urlFor = (key: string) => (publicUrl ? `${publicUrl}/${key}` : storageRouteUrl(key));
+
+  const presign = (key: string) =>
+    getSignedUrl(client, new GetObjectCommand({ Bucket: config.bucket, Key: key }), {
+      expiresIn: PRESIGNED_URL_TTL_SECONDS,
+    });
+
+  return {
+    name: "s3",
+
+    async put(key, data, contentType) {
+      // Blobs are streamed, which requires an explicit length
+      const body = data instanceof Blob ? Readable.fromWeb(data.stream() as WebReadableStream) : data;
+      await client.send(
+        new PutObjectCommand({
+          Bucket: config.bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          ContentLength: data instanceof Blob ? data.size : undefined,
+        })
+      );
+      return { key, url: urlFor(key) };
+    },
+
+    async get(key) {
+      return { key, url: publicUrl ? urlFor(key) : await presign(key) };
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }));
+    },
+
+    async *list(prefix?: string): AsyncIterable<StoredObjectInfo> {
+      let continuationToken: string | undefined;
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({ Bucket: config.bucket, Prefix: prefix, ContinuationToken: continuationToken })
+        );
+        for (const object of page.Contents ?? []) {
+          if (object.Key) {
+            yield { key: object.Key, size: object.Size ?? 0, lastModified: object.LastModified ?? new Date(0) };
+          }
+        }
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (continuationToken);
+    },
+
+    async serve(key, res) {
+      res.redirect(302, await presign(key));
+    },
+  };
+}
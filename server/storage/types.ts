@@ -0,0 +1,37 @@
+import type { Response } from "express";
+
+export type StorageData = Buffer | Uint8Array | string | Blob;
+
+export type StoredObject = { key: string; url: string };
+
+export type StoredObjectInfo = { key: string; size: number; lastModified: Date };
+
+/**
+ * A storage backend behind storagePut/storageGet.
+ * Keys are already normalized (no leading slash) when they reach a driver.
+ */
+export interface StorageDriver {
+  name: string;
+  put(key: string, data: StorageData, contentType: string): Promise<StoredObject>;
+  get(key: string): Promise<StoredObject>;
+  delete(key: string): Promise<void>;
+  // Enumerates stored objects so ones without a database row can be found; optional
+  list?(prefix?: string): AsyncIterable<StoredObjectInfo>;
+  // Returns an object's bytes; drivers without it are read through their get() URL
+  read?(key: string): Promise<Buffer>;
+  // Drivers whose URLs point at /api/storage answer those requests here
+  serve?(key: string, res: Response): Promise<void>;
+}
+
+// Thrown by drivers for operations their backend does not offer, so callers do not mistake them for success
+export class StorageUnsupportedError extends Error {
+  constructor(driver: string, operation: string) {
+    super(`The ${driver} storage driver cannot ${operation}`);
+    this.name = "StorageUnsupportedError";
+  }
+}
+
+// Browser-facing URL for objects served through the authenticated storage route
+export function storageRouteUrl(key: string): string {
+  return `/api/storage/${key.split("/").map(encodeURIComponent).join("/")}`;
+}
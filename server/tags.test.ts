@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getTagByName: vi.fn(),
+    getDiaryEntriesForTag: vi.fn(),
+    updateDiaryEntry: vi.fn(),
+    updateTagName: vi.fn(),
+    mergeTagInto: vi.fn(),
+  };
+});
+
+import type { Tag } from "../drizzle/schema";
+import * as db from "./db";
+import { mergeTags, parseTags, renameTag, replaceTagMentions } from "./tags";
+
+const makeTag = (overrides: Partial<Tag>): Tag => ({
+  id: 1,
+  userId: 1,
+  kind: "tag",
+  name: "travel",
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe("parseTags", () => {
+  it("finds distinct lowercase tags and people", () => {
+    expect(parseTags("Dinner with @Sam and @sam. #Food, #food #road-trip")).toEqual([
+      { kind: "person", name: "sam" },
+      { kind: "tag", name: "food" },
+      { kind: "tag", name: "road-trip" },
+    ]);
+  });
+
+  it("ignores emails, URL fragments, numbers and headings", () => {
+    expect(parseTags("Mail me@example.com, see https://x.dev/#top, item #2\n## Notes\n# Title")).toEqual([]);
+  });
+});
+
+describe("replaceTagMentions", () => {
+  it("rewrites only whole mentions of the same kind", () => {
+    expect(replaceTagMentions("#Travel and #travelling with @travel", "tag", "travel", "trips")).toBe(
+      "#trips and #travelling with @travel"
+    );
+  });
+});
+
+describe("renameTag", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("rewrites entry content before renaming", async () => {
+    vi.mocked(db.getTagByName).mockResolvedValue(undefined);
+    vi.mocked(db.getDiaryEntriesForTag).mockResolvedValue([
+      { id: 10, content: "Packing for #travel" },
+      { id: 11, content: null },
+    ]);
+
+    const renamed = await renameTag(makeTag({ id: 3 }), "#Trips");
+
+    expect(db.updateDiaryEntry).toHaveBeenCalledWith(10, { content: "Packing for #trips" }, { keepVersion: true });
+    expect(db.updateDiaryEntry).toHaveBeenCalledTimes(1);
+    expect(db.updateTagName).toHaveBeenCalledWith(3, "trips");
+    expect(renamed.name).toBe("trips");
+  });
+
+  it("refuses to rename onto an existing tag", async () => {
+    vi.mocked(db.getTagByName).mockResolvedValue(makeTag({ id: 4, name: "trips" }));
+
+    await expect(renameTag(makeTag({ id: 3 }), "trips")).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(db.updateTagName).not.toHaveBeenCalled();
+  });
+
+  it("rejects names that would not parse back", async () => {
+    await expect(renameTag(makeTag({}), "two words")).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+});
+
+describe("mergeTags", () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it("moves mentions and links onto the target", async () => {
+    vi.mocked(db.getDiaryEntriesForTag).mockResolvedValue([{ id: 10, content: "Hiking with @jo" }]);
+
+    await mergeTags(makeTag({ id: 5, kind: "person", name: "jo" }), makeTag({ id: 6, kind: "person", name: "joanna" }));
+
+    expect(db.updateDiaryEntry).toHaveBeenCalledWith(10, { content: "Hiking with @joanna" }, { keepVersion: true });
+    expect(db.mergeTagInto).toHaveBeenCalledWith(5, 6);
+  });
+
+  it("does not mix tags and people", async () => {
+    await expect(mergeTags(makeTag({ id: 5 }), makeTag({ id: 6, kind: "person" }))).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+});
@@ -0,0 +1,98 @@
+import { TRPCError } from "@trpc/server";
+import type { Tag } from "../drizzle/schema";
+import * as db from "./db";
+
+export type TagKind = Tag["kind"];
+export type ParsedTag = { kind: TagKind; name: string };
+
+const TAG_NAME_MAX_LENGTH = 100;
+const SIGILS: Record<TagKind, string> = { tag: "#", person: "@" };
+
+// A # or @ that starts a word (so emails, URL fragments and "##" headings are skipped), then letters, digits, _ or -
+// Built with the RegExp constructor: the compile target predates regex literals with the u flag
+const TOKEN_PATTERN = new RegExp("(^|[^\\p{L}\\p{N}_&/#@])([#@])([\\p{L}\\p{N}_][\\p{L}\\p{N}_-]*)", "gu");
+
+export function normalizeTagName(name: string) {
+  return name.toLowerCase().replace(/[-_]+$/, "").slice(0, TAG_NAME_MAX_LENGTH);
+}
+
+/**
+ * Finds the distinct #tags and @people mentioned in entry content.
+ */
+export function parseTags(content: string | null | undefined): ParsedTag[] {
+  if (!content) return [];
+  const found = new Map<string, ParsedTag>();
+  for (const match of Array.from(content.matchAll(TOKEN_PATTERN))) {
+    const kind: TagKind = match[2] === "#" ? "tag" : "person";
+    const name = normalizeTagName(match[3]);
+    // Pure numbers are issue refs or list markers ("#1"), not topics
+    if (!name || /^\d+$/.test(name)) continue;
+    found.set(`${kind}:${name}`, { kind, name });
+  }
+  return Array.from(found.values());
+}
+
+/**
+ * Rewrites every mention of one tag to another so content stays the source of
+ * truth after a rename or merge. Matching ignores case, like parsing does.
+ */
+export function replaceTagMentions(content: string, kind: TagKind, from: string, to: string) {
+  const sigil = SIGILS[kind];
+  return content.replace(TOKEN_PATTERN, (token, prefix: string, found: string, name: string) => {
+    if (found !== sigil || normalizeTagName(name) !== from) return token;
+    return `${prefix}${sigil}${to}`;
+  });
+}
+
+/**
+ * Re-parses an entry's content and relinks its tags. Called after every save.
+ */
+export async function syncEntryTags(userId: number, diaryEntryId: number, content: string | null | undefined) {
+  await db.setDiaryEntryTags(userId, diaryEntryId, parseTags(content));
+}
+
+async function rewriteMentions(tag: Tag, to: string) {
+  for (const entry of await db.getDiaryEntriesForTag(tag.id)) {
+    if (!entry.content) continue;
+    const content = replaceTagMentions(entry.content, tag.kind, tag.name, to);
+    if (content !== entry.content) {
+      // Snapshotted like any edit so the rename can be rolled back; the kept version
+      // spares editors open on other devices a conflict over a change they did not make
+      await db.updateDiaryEntry(entry.id, { content }, { keepVersion: true });
+    }
+  }
+}
+
+/**
+ * Renames a tag and every mention of it, so the next save does not bring the old name back.
+ */
+export async function renameTag(tag: Tag, newName: string) {
+  const name = normalizeTagName(newName.replace(/^[#@]/, ""));
+  if (!parseTags(`${SIGILS[tag.kind]}${name}`).some(parsed => parsed.name === name)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Tag names may only contain letters, numbers, _ and -" });
+  }
+  if (name === tag.name) return tag;
+  if (await db.getTagByName(tag.userId, tag.kind, name)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${SIGILS[tag.kind]}${name} already exists; merge the tags instead` });
+  }
+
+  await rewriteMentions(tag, name);
+  await db.updateTagName(tag.id, name);
+  return { ...tag, name };
+}
+
+/**
+ * Folds source into target: mentions are rewritten and entries relinked.
+ */
+export async function mergeTags(source: Tag, target: Tag) {
+  if (source.id === target.id) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "A tag cannot be merged into itself" });
+  }
+  if (source.kind !== target.kind) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Tags and people cannot be merged with each other" });
+  }
+
+  await rewriteMentions(source, target.name);
+  await db.mergeTagInto(source.id, target.id);
+  return target;
+}
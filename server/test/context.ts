@@ -0,0 +1,31 @@
+import type { TrpcContext } from "../_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+/** A tRPC context for a signed-in user, for calling procedures in tests. */
+export function createAuthContext(userId: number = 1): { ctx: TrpcContext } {
+  const user: AuthenticatedUser = {
+    id: userId,
+    openId: `user-${userId}`,
+    email: `user${userId}@example.com`,
+    name: `Test User ${userId}`,
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+
+  const ctx: TrpcContext = {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: () => {},
+    } as unknown as TrpcContext["res"],
+  };
+
+  return { ctx };
+}
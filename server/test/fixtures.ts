@@ -0,0 +1,22 @@
+import type { DiaryEntry } from "../../drizzle/schema";
+
+/** A saved diary entry row, with only the columns a test cares about overridden. */
+export function diaryEntry(overrides: Partial<DiaryEntry> = {}): DiaryEntry {
+  const now = new Date();
+  return {
+    id: 10,
+    userId: 1,
+    title: "Entry",
+    content: null,
+    contentFormat: "plain",
+    mood: null,
+    moodIntensity: null,
+    date: now,
+    clientId: null,
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null,
+    ...overrides,
+  };
+}
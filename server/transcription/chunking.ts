@@ -0,0 +1,112 @@
+import { spawn } from "child_process";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { ENV } from "../_core/env";
+import type { TranscriptionAudio, TranscriptionError, TranscriptionOptions, TranscriptionProvider, TranscriptionResult } from "./types";
+
+// Parts are re-encoded as 32 kbps mono MP3, so their size follows from their length
+const CHUNK_BYTES_PER_SECOND = 4000;
+// Room for container overhead and bitrate drift
+const CHUNK_HEADROOM = 0.9;
+
+export type AudioChunk = { audio: TranscriptionAudio; offset: number };
+
+export type AudioSplitter = (audio: TranscriptionAudio, segmentSeconds: number) => Promise<AudioChunk[] | null>;
+
+function runFfmpeg(args: string[]): Promise<boolean> {
+  return new Promise(resolve => {
+    const ffmpeg = spawn(ENV.ffmpegPath, args, { stdio: "ignore" });
+    ffmpeg.on("error", error => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        console.warn(`[Transcription] ffmpeg not found at "${ENV.ffmpegPath}"; long recordings cannot be split`);
+      }
+      resolve(false);
+    });
+    ffmpeg.on("close", code => resolve(code === 0));
+  });
+}
+
+/**
+ * Cuts a recording into back-to-back parts of segmentSeconds with ffmpeg.
+ * Resolves null when ffmpeg is missing or cannot decode the file.
+ */
+export async function splitAudio(audio: TranscriptionAudio, segmentSeconds: number): Promise<AudioChunk[] | null> {
+  const dir = await mkdtemp(path.join(tmpdir(), "transcription-"));
+  try {
+    const input = path.join(dir, "input");
+    await writeFile(input, audio.data);
+    const ok = await runFfmpeg([
+      "-i", input, "-vn", "-ac", "1", "-ar", "16000", "-c:a", "libmp3lame", "-b:a", "32k",
+      "-f", "segment", "-segment_time", String(segmentSeconds), "-reset_timestamps", "1",
+      path.join(dir, "part-%04d.mp3"),
+    ]);
+    if (!ok) return null;
+
+    const names = (await readdir(dir)).filter(name => name.startsWith("part-")).sort();
+    const baseName = audio.fileName.replace(/\.[^.]*$/, "");
+    return Promise.all(
+      names.map(async (name, index) => ({
+        audio: { data: await readFile(path.join(dir, name)), mimeType: "audio/mpeg", fileName: `${baseName}-${index + 1}.mp3` },
+        offset: index * segmentSeconds,
+      }))
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Stitches part transcripts back together, shifting each part's segment
+ * timestamps by where that part starts in the recording.
+ */
+export function mergeTranscripts(parts: { offset: number; result: TranscriptionResult }[]): TranscriptionResult {
+  const segments = parts.flatMap(({ offset, result }) =>
+    result.segments.map(segment => ({ start: segment.start + offset, end: segment.end + offset, text: segment.text }))
+  );
+  const last = parts[parts.length - 1];
+  const duration = last?.result.duration != null ? last.offset + last.result.duration : segments[segments.length - 1]?.end ?? null;
+
+  return {
+    text: parts.map(({ result }) => result.text.trim()).filter(Boolean).join(" "),
+    language: parts.find(({ result }) => result.language)?.result.language ?? null,
+    duration,
+    segments,
+  };
+}
+
+/**
+ * Sends a recording to the provider whole when it fits, otherwise in parts
+ * that each stay under the provider's size limit. The first failing part fails
+ * the whole transcript.
+ */
+export async function transcribeInChunks(
+  provider: TranscriptionProvider,
+  audio: TranscriptionAudio,
+  options: TranscriptionOptions,
+  split: AudioSplitter = splitAudio
+): Promise<TranscriptionResult | TranscriptionError> {
+  if (audio.data.length <= provider.maxBytes) {
+    return provider.transcribe(audio, options);
+  }
+
+  const segmentSeconds = Math.max(1, Math.floor((provider.maxBytes * CHUNK_HEADROOM) / CHUNK_BYTES_PER_SECOND));
+  const chunks = await split(audio, segmentSeconds);
+  if (!chunks?.length) {
+    return {
+      error: "Audio file exceeds maximum size limit",
+      code: "FILE_TOO_LARGE",
+      details: `${audio.data.length} bytes is over the ${provider.maxBytes} byte limit of ${provider.name} and the recording could not be split`,
+    };
+  }
+
+  const parts: { offset: number; result: TranscriptionResult }[] = [];
+  for (const chunk of chunks) {
+    // Later parts keep the language detected in the first, so a quiet part is not misread
+    const language = options.language ?? parts[0]?.result.language ?? undefined;
+    const result = await provider.transcribe(chunk.audio, { ...options, language });
+    if ("error" in result) return result;
+    parts.push({ offset: chunk.offset, result });
+  }
+  return mergeTranscripts(parts);
+}
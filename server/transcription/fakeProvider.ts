@@ -0,0 +1,36 @@
+import type { TranscriptionProvider } from "./types";
+
+// Pretends recordings are 32 kbps, so a byte count maps to a stable duration
+const FAKE_BYTES_PER_SECOND = 4000;
+const FAKE_SEGMENT_SECONDS = 5;
+
+/**
+ * Deterministic stand-in for tests and offline development: the transcript is
+ * derived from the file name and size only, with one segment per five seconds.
+ */
+export function createFakeProvider(maxBytes: number): TranscriptionProvider {
+  return {
+    name: "fake",
+    maxBytes,
+
+    async transcribe(audio, options) {
+      if (audio.data.length > maxBytes) {
+        return { error: "Audio file exceeds maximum size limit", code: "FILE_TOO_LARGE", details: `${audio.data.length} bytes` };
+      }
+
+      const duration = audio.data.length / FAKE_BYTES_PER_SECOND;
+      const count = Math.max(1, Math.ceil(duration / FAKE_SEGMENT_SECONDS));
+      const segments = Array.from({ length: count }, (_, index) => ({
+        start: index * FAKE_SEGMENT_SECONDS,
+        end: Math.min((index + 1) * FAKE_SEGMENT_SECONDS, duration),
+        text: `Part ${index + 1} of ${audio.fileName}.`,
+      }));
+      return {
+        text: segments.map(segment => segment.text).join(" "),
+        language: options.language ?? "en",
+        duration,
+        segments,
+      };
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import type { WhisperResponse } from "../_core/voiceTranscription";
+import type { TranscriptionProvider } from "./types";
+
+export type WhisperHttpConfig = {
+  name: string;
+  // Server root; requests go to <baseUrl>/v1/audio/transcriptions
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  maxBytes: number;
+  // Names the env vars to set when baseUrl is missing
+  configHint: string;
+};
+
+/**
+ * Talks to any server implementing OpenAI's transcription endpoint with
+ * verbose_json output: the Forge proxy, faster-whisper-server, whisper.cpp, LocalAI.
+ */
+export function createWhisperHttpProvider(config: WhisperHttpConfig): TranscriptionProvider {
+  return {
+    name: config.name,
+    maxBytes: config.maxBytes,
+
+    async transcribe(audio, options) {
+      if (!config.baseUrl) {
+        return { error: "Voice transcription service is not configured", code: "SERVICE_ERROR", details: `${config.configHint} is not set` };
+      }
+
+      const form = new FormData();
+      form.append("file", new Blob([new Uint8Array(audio.data)], { type: audio.mimeType }), audio.fileName);
+      form.append("model", config.model);
+      form.append("response_format", "verbose_json");
+      if (options.language) form.append("language", options.language);
+      if (options.prompt) form.append("prompt", options.prompt);
+
+      const headers: Record<string, string> = { "Accept-Encoding": "identity" };
+      if (config.apiKey) headers.authorization = `Bearer ${config.apiKey}`;
+      const url = new URL("v1/audio/transcriptions", config.baseUrl.endsWith("/") ? config.baseUrl : `${config.baseUrl}/`);
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers,
+          body: form,
+        });
+      } catch (error) {
+        return { error: "Voice transcription failed", code: "SERVICE_ERROR", details: error instanceof Error ? error.message : String(error) };
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        return {
+          error: response.status === 413 ? "Audio file exceeds maximum size limit" : "Transcription service request failed",
+          code: response.status === 413 ? "FILE_TOO_LARGE" : "TRANSCRIPTION_FAILED",
+          details: `${response.status} ${response.statusText}${errorText ? `: ${errorText}` : ""}`,
+        };
+      }
+
+      const body = (await response.json().catch(() => null)) as Partial<WhisperResponse> | null;
+      if (typeof body?.text !== "string") {
+        return { error: "Invalid transcription response", code: "SERVICE_ERROR", details: `${config.name} returned no text` };
+      }
+
+      return {
+        text: body.text,
+        language: body.language ?? null,
+        duration: body.duration ?? null,
+        segments: (body.segments ?? []).map(segment => ({ start: segment.start, end: segment.end, text: segment.text })),
+      };
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { ENV } from "../_core/env";
+import { transcribeInChunks } from "./chunking";
+import { createFakeProvider } from "./fakeProvider";
+import { createWhisperHttpProvider } from "./httpProvider";
+import type { TranscriptionAudio, TranscriptionError, TranscriptionOptions, TranscriptionProvider, TranscriptionResult } from "./types";
+
+export { mergeTranscripts, transcribeInChunks } from "./chunking";
+export type {
+  TranscriptionAudio,
+  TranscriptionError,
+  TranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionResult,
+  TranscriptionSegment,
+} from "./types";
+
+// Upload limits of the hosted endpoints; self-hosted servers can be given their own
+const FORGE_MAX_BYTES = 16 * 1024 * 1024;
+const WHISPER_MAX_BYTES = 25 * 1024 * 1024;
+
+let _provider: TranscriptionProvider | null = null;
+
+function createTranscriptionProvider(): TranscriptionProvider {
+  const hasForge = !!(ENV.forgeApiUrl && ENV.forgeApiKey);
+  const name = ENV.transcriptionProvider || (!hasForge && ENV.whisperApiUrl ? "whisper" : "forge");
+
+  switch (name) {
+    case "forge":
+      return createWhisperHttpProvider({
+        name: "forge",
+        baseUrl: hasForge ? ENV.forgeApiUrl : "",
+        apiKey: ENV.forgeApiKey,
+        model: "whisper-1",
+        maxBytes: ENV.transcriptionMaxBytes || FORGE_MAX_BYTES,
+        configHint: "BUILT_IN_FORGE_API_URL or BUILT_IN_FORGE_API_KEY",
+      });
+    case "whisper":
+      return createWhisperHttpProvider({
+        name: "whisper",
+        baseUrl: ENV.whisperApiUrl,
+        apiKey: ENV.whisperApiKey,
+        model: ENV.whisperModel,
+        maxBytes: ENV.transcriptionMaxBytes || WHISPER_MAX_BYTES,
+        configHint: "WHISPER_API_URL",
+      });
+    case "fake":
+      return createFakeProvider(ENV.transcriptionMaxBytes || WHISPER_MAX_BYTES);
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${name}": expected forge, whisper or fake`);
+  }
+}
+
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (!_provider) {
+    _provider = createTranscriptionProvider();
+  }
+  return _provider;
+}
+
+// Swaps the active provider, e.g. for tests
+export function setTranscriptionProvider(provider: TranscriptionProvider | null) {
+  _provider = provider;
+}
+
+export async function transcribe(
+  audio: TranscriptionAudio,
+  options: TranscriptionOptions = {}
+): Promise<TranscriptionResult | TranscriptionError> {
+  return transcribeInChunks(getTranscriptionProvider(), audio, options);
+}
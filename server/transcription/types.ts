@@ -0,0 +1,30 @@
+import type { TranscriptionError } from "../_core/voiceTranscription";
+
+export type { TranscriptionError } from "../_core/voiceTranscription";
+
+export type TranscriptionAudio = { data: Buffer; mimeType: string; fileName: string };
+
+export type TranscriptionOptions = {
+  language?: string; // ISO code, e.g. "en"; detected when omitted
+  prompt?: string;
+};
+
+export type TranscriptionSegment = { start: number; end: number; text: string };
+
+export type TranscriptionResult = {
+  text: string;
+  language: string | null;
+  // Seconds of audio covered, when the provider reports it
+  duration: number | null;
+  segments: TranscriptionSegment[];
+};
+
+/**
+ * A speech-to-text backend behind transcribe(). Audio over maxBytes is split
+ * into parts before it reaches the provider.
+ */
+export interface TranscriptionProvider {
+  name: string;
+  maxBytes: number;
+  transcribe(audio: TranscriptionAudio, options: TranscriptionOptions): Promise<TranscriptionResult | TranscriptionError>;
+}
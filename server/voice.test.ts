@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAuthContext } from "./test/context";
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return {
+    ...actual,
+    getMediaFileById: vi.fn(),
+    getAudioTranscript: vi.fn(),
+    saveAudioTranscript: vi.fn(async transcript => ({ ...transcript, id: 1, createdAt: new Date() })),
+  };
+});
+
+vi.mock("./storage", () => ({
+  storageRead: vi.fn(async () => Buffer.from("recording")),
+}));
+
+import type { MediaFile } from "../drizzle/schema";
+import * as db from "./db";
+import { appRouter } from "./routers";
+import { setTranscriptionProvider, transcribeInChunks, type TranscriptionProvider } from "./transcription";
+import type { AudioChunk } from "./transcription/chunking";
+import { createFakeProvider } from "./transcription/fakeProvider";
+
+function makeMediaFile(overrides: Partial<MediaFile> = {}): MediaFile {
+  return {
+    id: 40,
+    userId: 1,
+    diaryEntryId: null,
+    fileKey: "1/media/voice-note.webm",
+    fileUrl: "/api/storage/1/media/voice-note.webm",
+    fileType: "audio",
+    mimeType: "audio/webm",
+    fileName: "voice-note.webm",
+    fileSize: 2048,
+    width: null,
+    height: null,
+    takenAt: null,
+    latitude: null,
+    longitude: null,
+    camera: null,
+    uploadedAt: new Date(),
+    deletedAt: null,
+    ...overrides,
+  };
+}
+
+const provider = {
+  name: "test",
+  maxBytes: 1024 * 1024,
+  transcribe: vi.fn<TranscriptionProvider["transcribe"]>(),
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  setTranscriptionProvider(provider);
+});
+
+describe("voice.transcribe", () => {
+  it("stores the transcript with its timestamped segments", async () => {
+    vi.mocked(db.getMediaFileById).mockResolvedValue(makeMediaFile());
+    provider.transcribe.mockResolvedValue({
+      language: "en",
+      duration: 6.5,
+      text: " Walked to the lake. It was quiet. ",
+      segments: [
+        { start: 0, end: 2.4, text: " Walked to the lake." },
+        { start: 2.4, end: 4, text: "  " },
+        { start: 4, end: 6.5, text: " It was quiet." },
+      ],
+    });
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    const transcript = await caller.voice.transcribe({ mediaFileId: 40 });
+    expect(provider.transcribe).toHaveBeenCalledWith(
+      { data: Buffer.from("recording"), mimeType: "audio/webm", fileName: "voice-note.webm" },
+      { language: undefined }
+    );
+    expect(transcript).toMatchObject({
+      mediaFileId: 40,
+      userId: 1,
+      text: "Walked to the lake. It was quiet.",
+      segments: [
+        { start: 0, end: 2.4, text: "Walked to the lake." },
+        { start: 4, end: 6.5, text: "It was quiet." },
+      ],
+    });
+  });
+
+  it("only transcribes voice notes", async () => {
+    vi.mocked(db.getMediaFileById).mockResolvedValue(makeMediaFile({ fileType: "image", mimeType: "image/jpeg" }));
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.voice.transcribe({ mediaFileId: 40 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(provider.transcribe).not.toHaveBeenCalled();
+  });
+
+  it("hides other users' recordings", async () => {
+    vi.mocked(db.getMediaFileById).mockResolvedValue(makeMediaFile());
+    const caller = appRouter.createCaller(createAuthContext(2).ctx);
+
+    await expect(caller.voice.transcribe({ mediaFileId: 40 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.voice.getTranscript({ mediaFileId: 40 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("reports transcription failures without saving", async () => {
+    vi.mocked(db.getMediaFileById).mockResolvedValue(makeMediaFile());
+    provider.transcribe.mockResolvedValue({ error: "Audio file exceeds maximum size limit", code: "FILE_TOO_LARGE" });
+    const caller = appRouter.createCaller(createAuthContext().ctx);
+
+    await expect(caller.voice.transcribe({ mediaFileId: 40 })).rejects.toMatchObject({ code: "PAYLOAD_TOO_LARGE" });
+    expect(db.saveAudioTranscript).not.toHaveBeenCalled();
+  });
+});
+
+describe("transcribeInChunks", () => {
+  const audio = { data: Buffer.alloc(100_000), mimeType: "audio/webm", fileName: "walk.webm" };
+  // The fake reads 4000 bytes as one second of audio
+  const fake = createFakeProvider(48_000);
+
+  function splitInto(sizes: number[], segmentSeconds: number): AudioChunk[] {
+    return sizes.map((size, index) => ({
+      audio: { data: Buffer.alloc(size), mimeType: "audio/mpeg", fileName: `walk-${index + 1}.mp3` },
+      offset: index * segmentSeconds,
+    }));
+  }
+
+  it("sends recordings within the limit whole", async () => {
+    const split = vi.fn();
+    const result = await transcribeInChunks(fake, { ...audio, data: Buffer.alloc(20_000) }, {}, split);
+
+    expect(split).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ duration: 5, segments: [{ start: 0, end: 5, text: "Part 1 of walk.webm." }] });
+  });
+
+  it("splits longer recordings and shifts each part's timestamps by its offset", async () => {
+    const split = vi.fn(async (_audio, segmentSeconds: number) => splitInto([40_000, 40_000, 20_000], segmentSeconds));
+    const result = await transcribeInChunks(fake, audio, {}, split);
+
+    // 48 kB at 4 kB/s with 10% headroom
+    expect(split).toHaveBeenCalledWith(audio, 10);
+    expect(result).toMatchObject({ language: "en", duration: 25 });
+    expect("segments" in result && result.segments.map(({ start, end }) => [start, end])).toEqual([
+      [0, 5], [5, 10], [10, 15], [15, 20], [20, 25],
+    ]);
+    expect("text" in result && result.text).toBe(
+      "Part 1 of walk-1.mp3. Part 2 of walk-1.mp3. Part 1 of walk-2.mp3. Part 2 of walk-2.mp3. Part 1 of walk-3.mp3."
+    );
+  });
+
+  it("keeps the detected language for later parts", async () => {
+    const transcribe = vi.fn<TranscriptionProvider["transcribe"]>(async () => ({ text: "Hallo", language: "de", duration: 10, segments: [] }));
+    await transcribeInChunks({ name: "test", maxBytes: 48_000, transcribe }, audio, {}, async (_audio, seconds) => splitInto([1, 1], seconds));
+
+    expect(transcribe.mock.calls.map(([, options]) => options.language)).toEqual([undefined, "de"]);
+  });
+
+  it("reports recordings that are too large when they cannot be split", async () => {
+    const result = await transcribeInChunks(fake, audio, {}, async () => null);
+    expect(result).toMatchObject({ code: "FILE_TOO_LARGE" });
+  });
+});
@@ -0,0 +1,55 @@
+import { TRPCError } from "@trpc/server";
+import type { MediaFile, TranscriptSegment } from "../drizzle/schema";
+import * as db from "./db";
+import { storageRead } from "./storage";
+import { transcribe, type TranscriptionError, type TranscriptionSegment } from "./transcription";
+
+// Problems with the recording itself are the caller's to fix; the rest are on our side
+const errorCodes: Record<TranscriptionError["code"], TRPCError["code"]> = {
+  FILE_TOO_LARGE: "PAYLOAD_TOO_LARGE",
+  INVALID_FORMAT: "BAD_REQUEST",
+  UPLOAD_FAILED: "INTERNAL_SERVER_ERROR",
+  TRANSCRIPTION_FAILED: "INTERNAL_SERVER_ERROR",
+  SERVICE_ERROR: "INTERNAL_SERVER_ERROR",
+};
+
+/**
+ * Trims each transcribed segment for playback, dropping silent ones.
+ */
+export function toTranscriptSegments(segments: TranscriptionSegment[] = []): TranscriptSegment[] {
+  return segments
+    .map(segment => ({ start: segment.start, end: segment.end, text: segment.text.trim() }))
+    .filter(segment => segment.text.length > 0);
+}
+
+/**
+ * Transcribes a voice note and stores the transcript with its segments, replacing any earlier one.
+ */
+export async function transcribeVoiceNote(file: MediaFile, language?: string) {
+  if (file.fileType !== "audio") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Only voice notes can be transcribed" });
+  }
+
+  // Read server-side: local storage URLs are relative and need the user's session
+  const data = await storageRead(file.fileKey);
+  const audio = {
+    data,
+    mimeType: file.mimeType ?? "application/octet-stream",
+    // Whisper servers detect the format from the extension
+    fileName: file.fileName ?? file.fileKey.split("/").pop() ?? "voice-note",
+  };
+  const result = await transcribe(audio, { language });
+  if ("error" in result) {
+    console.error(`[Voice] Transcription failed for ${file.fileKey}`, result.details);
+    throw new TRPCError({ code: errorCodes[result.code], message: result.error });
+  }
+
+  return db.saveAudioTranscript({
+    mediaFileId: file.id,
+    userId: file.userId,
+    language: result.language,
+    duration: result.duration,
+    text: result.text.trim(),
+    segments: toTranscriptSegments(result.segments),
+  });
+}
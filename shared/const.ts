@@ -3,3 +3,12 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+export const DIARY_TRASH_RETENTION_DAYS = 30;
+export const MEDIA_UPLOAD_MAX_BYTES = 500 * 1024 * 1024;
+export const MEDIA_UPLOAD_MIME_TYPES = {
+  image: ["image/jpeg", "image/png", "image/gif", "image/webp", "image/heic", "image/heif"],
+  video: ["video/mp4", "video/webm", "video/quicktime"],
+  // What MediaRecorder produces across browsers, plus common voice memo formats
+  audio: ["audio/webm", "audio/ogg", "audio/mp4", "audio/mpeg", "audio/wav", "audio/x-m4a"],
+} as const;
+export const PROMPT_CATEGORIES = ["gratitude", "reflection", "growth", "relationships", "mindfulness", "creativity", "coping"] as const;
@@ -5,6 +5,7 @@ import fs from "node:fs";
 import path from "node:path";
 import { defineConfig, type Plugin, type ViteDevServer } from "vite";
 import { vitePluginManusRuntime } from "vite-plugin-manus-runtime";
+import { VitePWA } from "vite-plugin-pwa";
 
 // =============================================================================
 // Manus Debug Collector - Vite Plugin
@@ -150,7 +151,57 @@ function vitePluginManusDebugCollector(): Plugin {
   };
 }
 
-const plugins = [react(), tailwindcss(), jsxLocPlugin(), vitePluginManusRuntime(), vitePluginManusDebugCollector()];
+// =============================================================================
+// Installable PWA - Service worker caching the app shell for offline journaling
+// =============================================================================
+
+function vitePluginDiaryPwa() {
+  return VitePWA({
+    registerType: "autoUpdate",
+    // Registered from client/src/main.tsx
+    injectRegister: false,
+    manifest: {
+      name: "Personal Digital Diary",
+      short_name: "Diary",
+      description: "Write, track your mood and keep up habits, even offline",
+      start_url: "/",
+      display: "standalone",
+      background_color: "#f8fafc",
+      theme_color: "#1d4ed8",
+      icons: [{ src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any maskable" }],
+    },
+    workbox: {
+      // Precache just the shell; lazily loaded chunks (syntax highlighting, charts) are cached on first use
+      globPatterns: ["index.html", "assets/index-*.{js,css}"],
+      // The main bundle sits near Workbox's 2 MiB default, past which it would silently go uncached
+      maximumFileSizeToCacheInBytes: 4 * 1024 * 1024,
+      navigateFallback: "/index.html",
+      navigateFallbackDenylist: [/^\/api\//, /^\/__manus__\//],
+      runtimeCaching: [
+        {
+          // Hashed build output never changes under the same name
+          urlPattern: ({ url, sameOrigin }) => sameOrigin && url.pathname.startsWith("/assets/"),
+          handler: "CacheFirst",
+          options: { cacheName: "diary-assets", expiration: { maxEntries: 300 } },
+        },
+        {
+          // Private photos: always ask the server so access is rechecked, falling back to the copy only offline.
+          // Cleared on logout (client/src/_core/hooks/useAuth.ts)
+          urlPattern: ({ url, sameOrigin }) => sameOrigin && url.pathname.startsWith("/api/storage/"),
+          handler: "NetworkFirst",
+          options: {
+            cacheName: "diary-media",
+            networkTimeoutSeconds: 5,
+            expiration: { maxEntries: 500, maxAgeSeconds: 7 * 24 * 60 * 60 },
+            cacheableResponse: { statuses: [200] },
+          },
+        },
+      ],
+    },
+  });
+}
+
+const plugins = [react(), tailwindcss(), jsxLocPlugin(), vitePluginManusRuntime(), vitePluginManusDebugCollector(), vitePluginDiaryPwa()];
 
 export default defineConfig({
   plugins,